@@ -1,5 +1,7 @@
 import {
   App,
+  Editor,
+  EditorChange,
   FuzzySuggestModal,
   ItemView,
   Menu,
@@ -22,6 +24,35 @@ interface ProjectSource {
   status: "unread" | "active" | "done";
 }
 
+// A saved cut of the essay (e.g. "Part 1"), identified by section headings
+interface ExportPart {
+  id: string;
+  name: string;
+  headings: string[];
+}
+
+// Snapshots of one project file, stored compactly: every distinct line once,
+// each snapshot as runs of line ids ([firstId, count, firstId, count, …])
+interface SnapshotEntry {
+  id: string;
+  takenAt: number;
+  label: string; // e.g. "Before removing a section", "Manual snapshot"
+  runs: number[];
+}
+
+interface SnapshotStore {
+  lines: string[];
+  snapshots: SnapshotEntry[];
+}
+
+// A saved section order to switch back to, identified by section headings
+interface Arrangement {
+  id: string;
+  name: string;
+  headings: string[];
+  savedAt: number;
+}
+
 interface Project {
   id: string;
   name: string;
@@ -30,6 +61,25 @@ interface Project {
   sources: ProjectSource[];
   lastActiveAt?: number;
   archived?: boolean;
+  exportParts?: ExportPart[];
+  insertionTarget?: InsertionTarget; // heading new content goes under
+  sectionLevel?: number; // structural heading level, default 2 (##)
+  sectionMarkers?: boolean; // sections open at %% section %% comments instead
+  wordTarget?: number; // whole-essay target for your own (non-quoted) words
+  arrangements?: Arrangement[];
+}
+
+interface ExportProfile {
+  id: string;
+  name: string;
+  format: "markdown" | "html" | "docx" | "pandoc" | "bundle";
+  destination: "clipboard" | "folder" | "essay"; // essay = next to the project file
+  folder: string; // used when destination is "folder"
+  includeHeadings: boolean;
+  attributions: "strip" | "keep" | "footnotes" | "citations";
+  citationStyle: CitationStyle;
+  sourcesAsBibliography: boolean; // append the pinned section as a bibliography
+  permalinkPattern: string; // bundle: site URL for internal links, e.g. "/posts/{slug}/"
 }
 
 interface NoteAssemblerSettings {
@@ -37,7 +87,9 @@ interface NoteAssemblerSettings {
   maxRelatedNotes: number;
   distillDefaultFolder: string;
   addBacklinkToSource: boolean;
-  exportIncludeHeadings: boolean;
+  exportProfiles: ExportProfile[];
+  exportOverwrite: boolean;
+  targetFollowsCursor: boolean;
   showProjectsInDistill: boolean;
   hideHeadings: boolean;
   newEssayTemplate: string;
@@ -49,13 +101,75 @@ const DEFAULT_SETTINGS: NoteAssemblerSettings = {
   maxRelatedNotes: 6,
   distillDefaultFolder: "",
   addBacklinkToSource: false,
-  exportIncludeHeadings: true,
+  exportProfiles: [],
+  exportOverwrite: false,
+  targetFollowsCursor: false,
   showProjectsInDistill: true,
   hideHeadings: false,
   newEssayTemplate: "",
   essayFolder: "Cairn Essays",
 };
 
+function newExportProfile(
+  name: string,
+  format: ExportProfile["format"],
+  destination: ExportProfile["destination"]
+): ExportProfile {
+  return {
+    id: generateId(),
+    name,
+    format,
+    destination,
+    folder: "Cairn Exports",
+    includeHeadings: true,
+    attributions: "strip",
+    citationStyle: "author-date",
+    sourcesAsBibliography: false,
+    permalinkPattern: "/{slug}/",
+  };
+}
+
+const EXPORT_FORMAT_ICONS: Record<ExportProfile["format"], string> = {
+  markdown: "file-output",
+  html: "file-code",
+  docx: "file-text",
+  pandoc: "book-open",
+  bundle: "package",
+};
+
+// Formats that need a file (sidecars, binary output) and can't go to the clipboard
+const FILE_ONLY_FORMATS: ExportProfile["format"][] = ["docx", "pandoc", "bundle"];
+
+// Export settings of earlier versions, before named profiles replaced them
+interface LegacyExportSettings {
+  exportIncludeHeadings: boolean;
+  exportAttributions: ExportProfile["attributions"];
+  citationStyle: ExportProfile["citationStyle"];
+  exportFolder: string;
+  docxNextToEssay: boolean;
+}
+
+// Seed profiles from the single-toggle export settings of earlier versions
+function migrateExportProfiles(legacy: Partial<LegacyExportSettings>): ExportProfile[] {
+  const folder = typeof legacy.exportFolder === "string" ? legacy.exportFolder : "Cairn Exports";
+  const profiles = [
+    newExportProfile("Copy to clipboard", "markdown", "clipboard"),
+    newExportProfile("Save to file", "markdown", "folder"),
+    newExportProfile("Copy as HTML", "html", "clipboard"),
+    newExportProfile("Save as HTML file", "html", "folder"),
+    newExportProfile("Save as Word document", "docx", legacy.docxNextToEssay ? "essay" : "folder"),
+  ];
+  for (const profile of profiles) {
+    profile.folder = folder;
+    if (typeof legacy.exportIncludeHeadings === "boolean") {
+      profile.includeHeadings = legacy.exportIncludeHeadings;
+    }
+    if (legacy.exportAttributions) profile.attributions = legacy.exportAttributions;
+    if (legacy.citationStyle) profile.citationStyle = legacy.citationStyle;
+  }
+  return profiles;
+}
+
 interface NoteAssemblerData {
   projects: Project[];
   activeProjectId: string | null;
@@ -70,6 +184,9 @@ const DEFAULT_DATA: NoteAssemblerData = {
 
 const VIEW_TYPE = "note-assembler-view";
 
+// Drag payload from the Sources tab: { notePath, selection? }
+const SOURCE_DRAG_TYPE = "application/x-cairn-source";
+
 // ── Section: a parsed h2 block from the file ────────────────
 
 interface Section {
@@ -80,26 +197,61 @@ interface Section {
 }
 
 interface ContentBlock {
-  type: "heading" | "blockquote" | "prose";
+  type:
+    | "heading"
+    | "subheading"
+    | "blockquote"
+    | "callout"
+    | "prose"
+    | "list"
+    | "code"
+    | "table"
+    | "footnote"
+    | "embed"
+    | "frontmatter";
   startLine: number;
   endLine: number; // exclusive
   preview: string; // truncated first-line text for sidebar
   source?: string; // for blockquotes: extracted [[Source|*]] name
-  headingText?: string; // for headings: text without ##
+  headingText?: string; // for headings: text without ## / ###
+  status?: SectionStatus; // for section headings: %% status: … %% under the heading
+  target?: number; // for section headings: %% target: 500 %% word target
+  synopsis?: string; // for section headings: %% synopsis: … %% one-liner
+}
+
+// A ### item and the content it owns, inside a ## container
+interface ItemGroup {
+  heading: ContentBlock;
+  children: ContentBlock[];
+  headingIndex: number;
+  childIndices: number[];
 }
 
 interface HeadingGroup {
   heading: ContentBlock;
   children: ContentBlock[];
   headingIndex: number;       // index in flat blocks array
-  childIndices: number[];     // indices in flat blocks array
+  childIndices: number[];     // indices in flat blocks array (items included)
+  directIndices: number[];    // content before the first ### item
+  items: ItemGroup[];
 }
 
+// Outline icons for block types that have no card style of their own
+const BLOCK_TYPE_ICONS: Partial<Record<ContentBlock["type"], string>> = {
+  list: "list",
+  code: "code",
+  callout: "info",
+  table: "table",
+  footnote: "superscript",
+  embed: "file-input",
+};
+
 // ── Plugin ──────────────────────────────────────────────────
 
 export default class NoteAssemblerPlugin extends Plugin {
   data: NoteAssemblerData = DEFAULT_DATA;
   private statusBarEl: HTMLElement | null = null;
+  private cursorTargetLine: number | undefined = undefined;
 
   async onload() {
     await this.loadPluginData();
@@ -162,12 +314,112 @@ export default class NoteAssemblerPlugin extends Plugin {
 
     this.addCommand({
       id: "copy-clean-export",
-      name: "Export final essay to clipboard",
+      name: "Export final essay (default profile)",
+      checkCallback: (checking) => {
+        const project = this.getActiveProject();
+        if (!project) return false;
+        if (checking) return true;
+        this.runExportProfile(project, this.data.settings.exportProfiles[0]);
+        return true;
+      },
+    });
+
+    this.addCommand({
+      id: "export-sections",
+      name: "Export selected sections\u2026",
+      checkCallback: (checking) => {
+        const project = this.getActiveProject();
+        if (!project) return false;
+        if (checking) return true;
+        this.openSectionExport(project, null);
+        return true;
+      },
+    });
+
+    this.addCommand({
+      id: "export-with-profile",
+      name: "Export final essay with profile\u2026",
+      checkCallback: (checking) => {
+        const project = this.getActiveProject();
+        if (!project) return false;
+        if (checking) return true;
+        new ExportProfileModal(this.app, this.data.settings.exportProfiles, (profile) => {
+          this.runExportProfile(project, profile);
+        }).open();
+        return true;
+      },
+    });
+
+    this.addCommand({
+      id: "split-section-at-cursor",
+      name: "Split section at cursor",
+      editorCheckCallback: (checking, editor, view) => {
+        const project = this.getActiveProject();
+        if (!project || view.file?.path !== project.filePath) return false;
+        if (checking) return true;
+        this.promptSplitSection(project, editor.getCursor().line);
+        return true;
+      },
+    });
+
+    this.addCommand({
+      id: "move-section-up",
+      name: "Move current section up",
+      editorCheckCallback: (checking, editor, view) => {
+        const project = this.getActiveProject();
+        if (!project || view.file?.path !== project.filePath) return false;
+        if (checking) return true;
+        this.moveCursorSection(project, editor, -1);
+        return true;
+      },
+    });
+
+    this.addCommand({
+      id: "move-section-down",
+      name: "Move current section down",
+      editorCheckCallback: (checking, editor, view) => {
+        const project = this.getActiveProject();
+        if (!project || view.file?.path !== project.filePath) return false;
+        if (checking) return true;
+        this.moveCursorSection(project, editor, 1);
+        return true;
+      },
+    });
+
+    this.addCommand({
+      id: "snapshot-now",
+      name: "Snapshot now",
+      checkCallback: (checking) => {
+        const project = this.getActiveProject();
+        if (!project) return false;
+        if (checking) return true;
+        this.takeSnapshot(project, "Manual snapshot").then((saved) => {
+          new Notice(saved ? "Snapshot saved" : "No changes since the last snapshot");
+        });
+        return true;
+      },
+    });
+
+    this.addCommand({
+      id: "browse-snapshots",
+      name: "Browse snapshots\u2026",
+      checkCallback: (checking) => {
+        const project = this.getActiveProject();
+        if (!project) return false;
+        if (checking) return true;
+        this.openSnapshots(project);
+        return true;
+      },
+    });
+
+    this.addCommand({
+      id: "section-arrangements",
+      name: "Save or switch section arrangements\u2026",
       checkCallback: (checking) => {
         const project = this.getActiveProject();
         if (!project) return false;
         if (checking) return true;
-        this.copyCleanExport(project);
+        this.openArrangements(project);
         return true;
       },
     });
@@ -327,6 +579,33 @@ export default class NoteAssemblerPlugin extends Plugin {
       })
     );
 
+    // Keep the status bar word count live while typing in the essay
+    this.registerEvent(
+      this.app.workspace.on(
+        "editor-change",
+        debounce((_editor, info) => {
+          if (info.file && this.findProjectForFile(info.file.path)) this.updateStatusBar();
+        }, 500, true)
+      )
+    );
+
+    // Keep the outline's insertion-target marker following the cursor
+    this.registerDomEvent(
+      document,
+      "selectionchange",
+      debounce(() => {
+        const project = this.getActiveProject();
+        if (!project || project.insertionTarget || !this.data.settings.targetFollowsCursor) {
+          return;
+        }
+        const line = this.cursorSectionLine(project);
+        if (line !== this.cursorTargetLine) {
+          this.cursorTargetLine = line;
+          this.refreshView();
+        }
+      }, 200, true)
+    );
+
     // Status bar indicator for project files
     this.statusBarEl = this.addStatusBarItem();
     this.statusBarEl.addClass("cairn-status-bar");
@@ -389,6 +668,9 @@ export default class NoteAssemblerPlugin extends Plugin {
   onunload() {
     document.querySelectorAll(".cairn-project-file").forEach((el) => {
       el.classList.remove("cairn-project-file", "cairn-hide-headings");
+      Array.from(el.classList)
+        .filter((cls) => cls.startsWith("cairn-structure-"))
+        .forEach((cls) => el.classList.remove(cls));
     });
   }
 
@@ -421,6 +703,9 @@ export default class NoteAssemblerPlugin extends Plugin {
   updateProjectFileClass() {
     document.querySelectorAll(".cairn-project-file").forEach((el) => {
       el.classList.remove("cairn-project-file", "cairn-hide-headings");
+      Array.from(el.classList)
+        .filter((cls) => cls.startsWith("cairn-structure-"))
+        .forEach((cls) => el.classList.remove(cls));
     });
     // Remove stale header icons from all leaves
     document.querySelectorAll(".cairn-header-icon").forEach((el) => el.remove());
@@ -436,6 +721,11 @@ export default class NoteAssemblerPlugin extends Plugin {
 
       if (isProject) {
         leaf.view.containerEl.classList.add("cairn-project-file");
+        // Lets the heading styles target this essay's structural level
+        const structure = this.structureFor(this.findProjectForFile(file.path)!);
+        leaf.view.containerEl.classList.add(
+          structure.markers ? "cairn-structure-markers" : `cairn-structure-h${structure.level}`
+        );
         if (activeProject && file.path === activeProject.filePath && this.data.settings.hideHeadings) {
           leaf.view.containerEl.classList.add("cairn-hide-headings");
         }
@@ -465,7 +755,7 @@ export default class NoteAssemblerPlugin extends Plugin {
     }
   }
 
-  updateStatusBar() {
+  async updateStatusBar() {
     if (!this.statusBarEl) return;
     const activeFile = this.app.workspace.getActiveFile();
     if (!activeFile) {
@@ -478,7 +768,18 @@ export default class NoteAssemblerPlugin extends Plugin {
       const icon = this.statusBarEl.createSpan({ cls: "cairn-status-icon" });
       setIcon(icon, "layers");
       this.statusBarEl.createSpan({ text: project.name });
+      const wordsEl = this.statusBarEl.createSpan({ cls: "cairn-status-words" });
       this.statusBarEl.style.display = "";
+      let content: string;
+      try {
+        content = await this.getFileContent(activeFile);
+      } catch {
+        return;
+      }
+      // A newer update may have redrawn the status bar while we were reading
+      if (!wordsEl.isConnected) return;
+      const { own } = this.essayWordCount(project, content);
+      wordsEl.setText(`\u00B7 ${formatWordProgress(own, project.wordTarget)} words`);
     } else {
       this.statusBarEl.style.display = "none";
     }
@@ -553,10 +854,10 @@ export default class NoteAssemblerPlugin extends Plugin {
     }
   }
 
-  async addSourceAsIs(project: Project, source: ProjectSource) {
+  async addSourceAsIs(project: Project, source: ProjectSource, targetLine?: number) {
     const sourceFile = this.app.vault.getAbstractFileByPath(source.notePath);
     if (!(sourceFile instanceof TFile)) return;
-    await this.addNoteToProject(project, sourceFile);
+    await this.addNoteToProject(project, sourceFile, targetLine);
     const idx = project.sources.findIndex(
       (s) => s.notePath === source.notePath
     );
@@ -567,6 +868,23 @@ export default class NoteAssemblerPlugin extends Plugin {
     this.switchToTab("outline");
   }
 
+  // ── Drop from the Sources tab onto an outline heading ──
+
+  async insertSourceAtHeading(
+    project: Project,
+    notePath: string,
+    selection: string | undefined,
+    targetLine: number
+  ) {
+    const source = project.sources.find((s) => s.notePath === notePath);
+    if (!source) return;
+    if (selection) {
+      await this.quoteSelectionFromSource(project, source, selection, targetLine);
+    } else {
+      await this.addSourceAsIs(project, source, targetLine);
+    }
+  }
+
   async distillSource(project: Project, source: ProjectSource) {
     const sourceFile = this.app.vault.getAbstractFileByPath(source.notePath);
     if (!(sourceFile instanceof TFile)) return;
@@ -589,7 +907,8 @@ export default class NoteAssemblerPlugin extends Plugin {
   async quoteSelectionFromSource(
     project: Project,
     source: ProjectSource,
-    selection: string
+    selection: string,
+    targetLine?: number
   ) {
     const projectFile = this.app.vault.getAbstractFileByPath(project.filePath);
     if (!(projectFile instanceof TFile)) return;
@@ -597,7 +916,6 @@ export default class NoteAssemblerPlugin extends Plugin {
     if (!(sourceFile instanceof TFile)) return;
 
     const content = await this.getFileContent(projectFile);
-    const sections = this.parseSections(content);
 
     const trimmed = selection.trim();
     const sourceName = sourceFile.basename;
@@ -617,39 +935,11 @@ export default class NoteAssemblerPlugin extends Plugin {
             .join("\n");
     const newBlock = `${blockquote}  [[${sourceName}|*]]\n`;
 
-    const sourcesSection = sections.find((s) => s.pinned);
-    const lines = content.split("\n");
-
-    let newContent: string;
-    if (sourcesSection) {
-      const beforeSources = lines
-        .slice(0, sourcesSection.startLine)
-        .join("\n");
-      const sourcesText = lines.slice(sourcesSection.startLine).join("\n");
-      const updatedSources = sourcesText.includes(`[[${sourceName}]]`)
-        ? sourcesText
-        : sourcesText.trimEnd() + `\n- [[${sourceName}]]`;
-      newContent =
-        beforeSources.trimEnd() +
-        "\n\n" +
-        newBlock +
-        "\n" +
-        updatedSources +
-        "\n";
-    } else {
-      const pinnedName = this.data.settings.pinnedSectionName;
-      newContent =
-        content.trimEnd() +
-        "\n\n" +
-        newBlock +
-        `\n\n---\n\n## ${pinnedName}\n\n- [[${sourceName}]]\n`;
-    }
-
-    await this.setFileContent(projectFile, newContent);
-    const insertLine = sourcesSection
-      ? sourcesSection.startLine
-      : lines.length;
-    this.scrollEditorToLine(projectFile, insertLine);
+    const inserted = this.insertAttributedBlock(
+      project, content, newBlock, sourceName, targetLine ?? this.insertionTargetLine(project, content)
+    );
+    await this.setFileContent(projectFile, inserted.content, content);
+    this.scrollEditorToLine(projectFile, inserted.insertLine);
 
     const idx = project.sources.findIndex(
       (s) => s.notePath === source.notePath
@@ -680,25 +970,37 @@ export default class NoteAssemblerPlugin extends Plugin {
     }
   }
 
-  // ── Parse h2 sections from file content ──
+  // ── Which lines open sections and items in this project's essay ──
+
+  structureFor(project: Project): SectionStructure {
+    return {
+      level: project.sectionLevel ?? 2,
+      markers: project.sectionMarkers ?? false,
+      pinnedName: this.data.settings.pinnedSectionName,
+    };
+  }
+
+  // ── Parse sections (## headings, or the project's structure) from file content ──
 
-  parseSections(content: string): Section[] {
+  parseSections(content: string, project: Project): Section[] {
     const lines = content.split("\n");
     const sections: Section[] = [];
     let current: Section | null = null;
+    const literal = literalLineMask(lines);
+    const structure = this.structureFor(project);
 
     for (let i = 0; i < lines.length; i++) {
-      const match = lines[i].match(/^## (.+)$/);
-      if (match) {
+      const title = literal[i] ? null : sectionTitleAt(lines, i, structure);
+      if (title !== null) {
         if (current) {
           current.endLine = i;
           sections.push(current);
         }
         current = {
-          heading: match[1],
+          heading: title,
           startLine: i,
           endLine: lines.length,
-          pinned: match[1].trim() === this.data.settings.pinnedSectionName,
+          pinned: title.trim() === structure.pinnedName,
         };
       }
     }
@@ -710,22 +1012,18 @@ export default class NoteAssemblerPlugin extends Plugin {
     return sections;
   }
 
-  // ── Parse content into blocks (headings, blockquotes, prose) ──
+  // ── Parse content into blocks (headings, quotes, lists, code, tables…) ──
+  // Each markdown construct is one block, so moves and removes never cut
+  // through a fence, list, table, callout or footnote.
 
-  parseBlocks(content: string): ContentBlock[] {
+  parseBlocks(content: string, project: Project): ContentBlock[] {
     const lines = content.split("\n");
     const blocks: ContentBlock[] = [];
-    const pinnedName = this.data.settings.pinnedSectionName;
+    const structure = this.structureFor(project);
 
     // Find pinned section start line (stop parsing there)
-    let pinnedStart = lines.length;
-    for (let j = 0; j < lines.length; j++) {
-      const m = lines[j].match(/^## (.+)$/);
-      if (m && m[1].trim() === pinnedName) {
-        pinnedStart = j;
-        break;
-      }
-    }
+    const pinnedStart =
+      this.parseSections(content, project).find((s) => s.pinned)?.startLine ?? lines.length;
 
     // Back up past --- HR and blank lines before pinned section
     let effectiveEnd = pinnedStart;
@@ -733,34 +1031,110 @@ export default class NoteAssemblerPlugin extends Plugin {
     if (effectiveEnd > 0 && lines[effectiveEnd - 1].match(/^---+$/)) effectiveEnd--;
     if (effectiveEnd > 0 && lines[effectiveEnd - 1].trim() === "") effectiveEnd--;
 
+    const isQuote = (l: string) => l.startsWith("> ") || l === ">";
+    const isListItem = (l: string) => /^\s*([-*+]|\d+[.)])\s/.test(l);
+    const isFence = (l: string) => /^\s*(`{3,}|~{3,})/.test(l);
+    const isTableRow = (l: string) => /^\s*\|/.test(l);
+    const isEmbed = (l: string) => /^!\[\[[^\]]+]]\s*$/.test(l);
+    const isFootnote = (l: string) => /^\[\^[^\]]+]:/.test(l);
+
     let i = 0;
+
+    // Frontmatter (only at the very top of the file)
+    if (lines[0] === "---") {
+      const close = lines.findIndex((l, j) => j > 0 && (l === "---" || l === "..."));
+      if (close !== -1 && close < effectiveEnd) {
+        blocks.push({
+          type: "frontmatter",
+          startLine: 0,
+          endLine: close + 1,
+          preview: "Frontmatter",
+        });
+        i = close + 1;
+      }
+    }
+
     while (i < effectiveEnd) {
       const line = lines[i];
 
       // Skip blank lines
       if (line.trim() === "") { i++; continue; }
 
+      // Code fence (up to the matching closing fence)
+      const fenceMatch = line.match(/^\s*(`{3,}|~{3,})(.*)$/);
+      if (fenceMatch) {
+        const start = i;
+        const fence = fenceMatch[1];
+        i++;
+        while (i < effectiveEnd && !new RegExp(`^\\s*${fence[0]}{${fence.length},}\\s*$`).test(lines[i])) {
+          i++;
+        }
+        if (i < effectiveEnd) i++; // closing fence
+        const lang = fenceMatch[2].trim();
+        const firstCode = lines[start + 1] ?? "";
+        blocks.push({
+          type: "code",
+          startLine: start,
+          endLine: i,
+          preview: truncate(lang ? `${lang}: ${firstCode.trim()}` : firstCode.trim(), 50),
+        });
+        continue;
+      }
+
       // Skip HR lines
       if (line.match(/^---+$/)) { i++; continue; }
 
-      // Heading block (single line)
-      const headingMatch = line.match(/^## (.+)$/);
-      if (headingMatch) {
+      // Heading block (a structural heading or section marker, plus the
+      // %% status %% style annotations directly under it)
+      const sectionTitle = sectionTitleAt(lines, i, structure);
+      if (sectionTitle !== null) {
+        const end = Math.min(annotationEnd(lines, i), effectiveEnd);
         blocks.push({
           type: "heading",
           startLine: i,
+          endLine: end,
+          preview: sectionTitle,
+          headingText: sectionTitle,
+          status: sectionStatus(lines, i),
+          target: sectionTarget(lines, i),
+          synopsis: sectionAnnotation(lines, i, "synopsis") || undefined,
+        });
+        i = end;
+        continue;
+      }
+
+      // Item heading (one level below sections — owns the content that follows it)
+      const itemTitle = itemTitleAt(line, structure);
+      if (itemTitle !== null) {
+        blocks.push({
+          type: "subheading",
+          startLine: i,
           endLine: i + 1,
-          preview: headingMatch[1],
-          headingText: headingMatch[1],
+          preview: itemTitle,
+          headingText: itemTitle,
         });
         i++;
         continue;
       }
 
+      // Callout (> [!type] title) — a quote-styled container, not a source quote
+      const calloutMatch = line.match(/^>\s*\[!([^\]]+)][+-]?\s*(.*)$/);
+      if (calloutMatch) {
+        const start = i;
+        while (i < effectiveEnd && isQuote(lines[i])) i++;
+        blocks.push({
+          type: "callout",
+          startLine: start,
+          endLine: i,
+          preview: truncate(calloutMatch[2] || calloutMatch[1], 50),
+        });
+        continue;
+      }
+
       // Blockquote block (consecutive > lines)
-      if (line.startsWith("> ") || line === ">") {
+      if (isQuote(line)) {
         const start = i;
-        while (i < effectiveEnd && (lines[i].startsWith("> ") || lines[i] === ">")) {
+        while (i < effectiveEnd && isQuote(lines[i])) {
           i++;
         }
         const lastQuoteLine = lines[i - 1];
@@ -776,16 +1150,97 @@ export default class NoteAssemblerPlugin extends Plugin {
         continue;
       }
 
-      // Prose block (consecutive non-blank, non-heading, non-blockquote, non-HR lines)
+      // Table (consecutive | rows)
+      if (isTableRow(line)) {
+        const start = i;
+        while (i < effectiveEnd && isTableRow(lines[i])) i++;
+        blocks.push({
+          type: "table",
+          startLine: start,
+          endLine: i,
+          preview: truncate(line.replace(/^\s*\|\s*|\s*\|\s*$/g, "").replace(/\s*\|\s*/g, " \u00B7 "), 50),
+        });
+        continue;
+      }
+
+      // Footnote definition, with its indented continuation paragraphs
+      if (isFootnote(line)) {
+        const start = i;
+        i++;
+        while (i < effectiveEnd) {
+          if (/^(\t| {2,})\S/.test(lines[i])) { i++; continue; }
+          // A blank line continues the footnote only if indented text follows
+          let k = i;
+          while (k < effectiveEnd && lines[k].trim() === "") k++;
+          if (k > i && k < effectiveEnd && /^(\t| {2,})\S/.test(lines[k])) { i = k; continue; }
+          break;
+        }
+        blocks.push({
+          type: "footnote",
+          startLine: start,
+          endLine: i,
+          preview: truncate(line, 50),
+        });
+        continue;
+      }
+
+      // Embed (a line that is only ![[...]])
+      if (isEmbed(line)) {
+        blocks.push({
+          type: "embed",
+          startLine: i,
+          endLine: i + 1,
+          preview: line.trim().slice(3, -2),
+        });
+        i++;
+        continue;
+      }
+
+      // List: items, indented continuations and nested lists, across blank lines
+      if (isListItem(line)) {
+        const start = i;
+        i++;
+        while (i < effectiveEnd) {
+          if (lines[i].trim() !== "" && (isListItem(lines[i]) || /^\s+\S/.test(lines[i]))) {
+            i++;
+            continue;
+          }
+          // Loose list: a blank line continues it if an indented line or an
+          // item of the same kind (bulleted / numbered) follows
+          let k = i;
+          while (k < effectiveEnd && lines[k].trim() === "") k++;
+          const sameKind = /^\d/.test(lines[k] ?? "") === /^\d/.test(line);
+          if (
+            k > i &&
+            k < effectiveEnd &&
+            ((isListItem(lines[k]) && sameKind) || /^\s+\S/.test(lines[k]))
+          ) {
+            i = k;
+            continue;
+          }
+          break;
+        }
+        blocks.push({
+          type: "list",
+          startLine: start,
+          endLine: i,
+          preview: truncate(line.replace(/^\s*([-*+]|\d+[.)])\s+/, ""), 50),
+        });
+        continue;
+      }
+
+      // Prose block (consecutive lines until a blank line or another construct)
       {
         const start = i;
         while (
           i < effectiveEnd &&
           lines[i].trim() !== "" &&
-          !lines[i].match(/^## .+$/) &&
-          !lines[i].startsWith("> ") &&
-          lines[i] !== ">" &&
-          !lines[i].match(/^---+$/)
+          sectionTitleAt(lines, i, structure) === null &&
+          itemTitleAt(lines[i], structure) === null &&
+          !isQuote(lines[i]) &&
+          !lines[i].match(/^---+$/) &&
+          !isFence(lines[i]) &&
+          !(i > start && (isListItem(lines[i]) || isTableRow(lines[i]) || isEmbed(lines[i])))
         ) {
           i++;
         }
@@ -801,7 +1256,7 @@ export default class NoteAssemblerPlugin extends Plugin {
     return blocks;
   }
 
-  // ── Group blocks by heading (for collapsible outline) ──
+  // ── Group blocks by heading: ## containers holding ### items (for collapsible outline) ──
 
   groupBlocks(blocks: ContentBlock[]): { orphans: number[]; groups: HeadingGroup[] } {
     const orphans: number[] = [];
@@ -817,10 +1272,21 @@ export default class NoteAssemblerPlugin extends Plugin {
           children: [],
           headingIndex: i,
           childIndices: [],
+          directIndices: [],
+          items: [],
         };
       } else if (currentGroup) {
         currentGroup.children.push(blocks[i]);
         currentGroup.childIndices.push(i);
+        const items = currentGroup.items;
+        if (blocks[i].type === "subheading") {
+          items.push({ heading: blocks[i], children: [], headingIndex: i, childIndices: [] });
+        } else if (items.length > 0) {
+          items[items.length - 1].children.push(blocks[i]);
+          items[items.length - 1].childIndices.push(i);
+        } else {
+          currentGroup.directIndices.push(i);
+        }
       } else {
         orphans.push(i);
       }
@@ -843,18 +1309,35 @@ export default class NoteAssemblerPlugin extends Plugin {
     return await this.app.vault.read(file);
   }
 
-  // ── Modify file through editor if open, else vault.modify ──
+  // ── Modify file through editor if open, else vault.process ──
+  // Only the changed line ranges are replaced, in one transaction, so the
+  // cursor, folds and scroll survive and Ctrl+Z undoes one sidebar action.
 
-  async setFileContent(file: TFile, content: string) {
+  // `base` is the text the edit was computed from. If the file changed since
+  // (typing, sync), the edit is dropped instead of overwriting the newer text.
+  async setFileContent(file: TFile, content: string, base: string): Promise<boolean> {
     const leaves = this.app.workspace.getLeavesOfType("markdown");
     for (const leaf of leaves) {
       const view = leaf.view as any;
       if (view?.file?.path === file.path && view?.editor) {
-        view.editor.setValue(content);
-        return;
+        const current: string = view.editor.getValue();
+        if (current !== base) {
+          new Notice(`"${file.basename}" changed while editing, nothing was applied`);
+          return false;
+        }
+        const changes = lineDiffChanges(current, content);
+        if (changes.length > 0) view.editor.transaction({ changes });
+        return true;
       }
     }
-    await this.app.vault.modify(file, content);
+    let applied = false;
+    await this.app.vault.process(file, (data) => {
+      if (data !== base) return data;
+      applied = true;
+      return content;
+    });
+    if (!applied) new Notice(`"${file.basename}" changed while editing, nothing was applied`);
+    return applied;
   }
 
   scrollEditorToLine(file: TFile, line: number) {
@@ -874,7 +1357,7 @@ export default class NoteAssemblerPlugin extends Plugin {
 
   // ── Add a vault note as a new section (with [[source|*]] attribution) ──
 
-  async addNoteToProject(project: Project, sourceFile: TFile) {
+  async addNoteToProject(project: Project, sourceFile: TFile, targetLine?: number) {
     const projectFile = this.app.vault.getAbstractFileByPath(project.filePath);
     if (!(projectFile instanceof TFile)) return;
 
@@ -888,7 +1371,6 @@ export default class NoteAssemblerPlugin extends Plugin {
     sourceContent = sourceContent.replace(/\n## Reference[\s\S]*$/, "").trim();
 
     const content = await this.getFileContent(projectFile);
-    const sections = this.parseSections(content);
 
     const quoted = sourceContent
       .split("\n")
@@ -896,52 +1378,133 @@ export default class NoteAssemblerPlugin extends Plugin {
       .join("\n");
     const newBlock = `${quoted}  [[${sourceFile.basename}|*]]\n`;
 
-    const sourcesSection = sections.find((s) => s.pinned);
-    const lines = content.split("\n");
-
-    let newContent: string;
-    if (sourcesSection) {
-      const beforeSources = lines
-        .slice(0, sourcesSection.startLine)
-        .join("\n");
-      const sourcesText = lines.slice(sourcesSection.startLine).join("\n");
-      const updatedSources =
-        sourcesText.trimEnd() + `\n- [[${sourceFile.basename}]]`;
-      newContent =
-        beforeSources.trimEnd() +
-        "\n\n" +
-        newBlock +
-        "\n" +
-        updatedSources +
-        "\n";
-    } else {
-      const pinnedName = this.data.settings.pinnedSectionName;
-      newContent =
-        content.trimEnd() +
-        "\n\n" +
-        newBlock +
-        `\n\n---\n\n## ${pinnedName}\n\n` +
-        `- [[${sourceFile.basename}]]` +
-        "\n";
-    }
-
-    await this.setFileContent(projectFile, newContent);
-    const insertLine = sourcesSection
-      ? sourcesSection.startLine
-      : lines.length;
-    this.scrollEditorToLine(projectFile, insertLine);
+    const inserted = this.insertAttributedBlock(
+      project,
+      content,
+      newBlock,
+      sourceFile.basename,
+      targetLine ?? this.insertionTargetLine(project, content)
+    );
+    await this.setFileContent(projectFile, inserted.content, content);
+    this.scrollEditorToLine(projectFile, inserted.insertLine);
     new Notice(`Added from ${sourceFile.basename}`);
   }
 
-  // ── Add a blank section ──
+  // ── Insertion target: a clicked heading, else the cursor's ## section ──
 
-  async addBlankSection(project: Project) {
-    const projectFile = this.app.vault.getAbstractFileByPath(project.filePath);
-    if (!(projectFile instanceof TFile)) return;
+  insertionTargetLine(project: Project, content: string): number | undefined {
+    if (project.insertionTarget) {
+      const line = findInsertionTarget(content.split("\n"), project.insertionTarget);
+      if (line !== -1) return line;
+      // Renamed or removed: say so rather than quietly inserting elsewhere
+      new Notice(`Insertion target "${project.insertionTarget.line}" is gone, unpinned it`);
+      project.insertionTarget = undefined;
+      this.savePluginData();
+    }
+    if (!this.data.settings.targetFollowsCursor) return undefined;
+    return this.cursorSectionLine(project, content);
+  }
 
-    const content = await this.getFileContent(projectFile);
-    const sections = this.parseSections(content);
-    const newSection = "## New Section\n\n";
+  cursorSectionLine(project: Project, content?: string): number | undefined {
+    for (const leaf of this.app.workspace.getLeavesOfType("markdown")) {
+      const view = leaf.view as any;
+      if (view?.file?.path !== project.filePath || !view?.editor) continue;
+      const lines = (content ?? view.editor.getValue()).split("\n");
+      const cursor: number = view.editor.getCursor().line;
+      const structure = this.structureFor(project);
+      for (let i = Math.min(cursor, lines.length - 1); i >= 0; i--) {
+        const title = sectionTitleAt(lines, i, structure);
+        if (title === null) continue;
+        return title.trim() === structure.pinnedName ? undefined : i;
+      }
+      return undefined;
+    }
+    return undefined;
+  }
+
+  async setInsertionTarget(project: Project, target: InsertionTarget | undefined) {
+    project.insertionTarget = target;
+    await this.savePluginData();
+    this.refreshView();
+  }
+
+  // ── Place a quoted block in the essay and list its source ──
+  // Without a target the block goes just above the pinned section; with one
+  // (a section or item heading line) it goes at the end of that heading's content.
+
+  insertAttributedBlock(
+    project: Project,
+    content: string,
+    newBlock: string,
+    sourceName: string,
+    targetLine?: number
+  ): { content: string; insertLine: number } {
+    const lines = content.split("\n");
+    const structure = this.structureFor(project);
+    const sourcesSection = this.parseSections(content, project).find((s) => s.pinned);
+    const isSection = targetLine !== undefined && sectionTitleAt(lines, targetLine, structure) !== null;
+    const isItem = targetLine !== undefined && itemTitleAt(lines[targetLine] ?? "", structure) !== null;
+
+    if ((!isSection && !isItem) || (sourcesSection && targetLine === sourcesSection.startLine)) {
+      if (!sourcesSection) {
+        const pinnedName = this.data.settings.pinnedSectionName;
+        return {
+          content:
+            content.trimEnd() +
+            "\n\n" +
+            newBlock +
+            `\n\n---\n\n## ${pinnedName}\n\n- [[${sourceName}]]\n`,
+          insertLine: lines.length,
+        };
+      }
+      const beforeSources = lines.slice(0, sourcesSection.startLine).join("\n");
+      const sourcesText = lines.slice(sourcesSection.startLine).join("\n");
+      return {
+        content: addToSourcesList(
+          beforeSources.trimEnd() + "\n\n" + newBlock + "\n" + sourcesText.trimEnd() + "\n",
+          sourceName,
+          structure
+        ),
+        insertLine: sourcesSection.startLine,
+      };
+    }
+
+    // End of the target's content: the next section (or, for an item, the next item)
+    let end = targetLine! + 1;
+    while (end < lines.length) {
+      if (sectionTitleAt(lines, end, structure) !== null) break;
+      if (isItem && itemTitleAt(lines[end], structure) !== null) break;
+      end++;
+    }
+    // Stay above the --- separator and blank lines that precede it
+    while (end > targetLine! + 1 && lines[end - 1].trim() === "") end--;
+    if (end > targetLine! + 1 && lines[end - 1].match(/^---+$/)) end--;
+    while (end > targetLine! + 1 && lines[end - 1].trim() === "") end--;
+
+    const before = lines.slice(0, end);
+    const after = lines.slice(end);
+    while (after.length > 0 && after[0].trim() === "") after.shift();
+    const parts = [before.join("\n"), newBlock.trimEnd()];
+    if (after.length > 0) parts.push(after.join("\n"));
+    return {
+      content: addToSourcesList(
+        parts.join("\n\n").trimEnd() + "\n",
+        sourceName,
+        structure
+      ),
+      insertLine: end + 1,
+    };
+  }
+
+  // ── Add a blank section ──
+
+  async addBlankSection(project: Project) {
+    const projectFile = this.app.vault.getAbstractFileByPath(project.filePath);
+    if (!(projectFile instanceof TFile)) return;
+
+    const content = await this.getFileContent(projectFile);
+    const sections = this.parseSections(content, project);
+    const newSection = sectionOpener("New Section", this.structureFor(project)) + "\n\n";
 
     const sourcesSection = sections.find((s) => s.pinned);
     const lines = content.split("\n");
@@ -958,9 +1521,9 @@ export default class NoteAssemblerPlugin extends Plugin {
       newContent = content.trimEnd() + "\n\n" + newSection;
     }
 
-    await this.setFileContent(projectFile, newContent);
+    await this.setFileContent(projectFile, newContent, content);
 
-    const newSections = this.parseSections(newContent);
+    const newSections = this.parseSections(newContent, project);
     const newSec = newSections.filter((s) => !s.pinned).pop();
     if (newSec) {
       const leaves = this.app.workspace.getLeavesOfType("markdown");
@@ -991,25 +1554,49 @@ export default class NoteAssemblerPlugin extends Plugin {
     if (!(projectFile instanceof TFile)) return;
 
     const content = await this.getFileContent(projectFile);
-    const allSections = this.parseSections(content);
+    const newContent = this.moveSectionInContent(content, project, fromIndex, toIndex);
+    if (newContent !== null) await this.setFileContent(projectFile, newContent, content);
+  }
+
+  // The text edit behind moveSection, so several moves can become one write
+  moveSectionInContent(
+    content: string,
+    project: Project,
+    fromIndex: number,
+    toIndex: number
+  ): string | null {
+    const allSections = this.parseSections(content, project);
     const draggable = allSections.filter((s) => !s.pinned);
-    if (fromIndex >= draggable.length || toIndex >= draggable.length) return;
+    if (fromIndex >= draggable.length || toIndex >= draggable.length) return null;
 
     const lines = content.split("\n");
     const section = draggable[fromIndex];
-    const sectionLines = lines.slice(section.startLine, section.endLine);
 
-    lines.splice(section.startLine, section.endLine - section.startLine);
+    // The --- rule above the pinned section stays put when the last section moves
+    let sectionEnd = section.endLine;
+    if (allSections.some((s) => s.pinned && s.startLine === section.endLine)) {
+      let end = sectionEnd;
+      while (end > section.startLine + 1 && lines[end - 1].trim() === "") end--;
+      if (lines[end - 1].match(/^---+$/)) sectionEnd = end - 1;
+    }
+    const sectionLines = lines.slice(section.startLine, sectionEnd);
+
+    lines.splice(section.startLine, sectionEnd - section.startLine);
 
     const afterRemoval = lines.join("\n");
-    const remainingSections = this.parseSections(afterRemoval).filter(
+    const remainingSections = this.parseSections(afterRemoval, project).filter(
       (s) => !s.pinned
     );
 
     let insertLine: number;
     if (toIndex >= remainingSections.length) {
-      const pinned = this.parseSections(afterRemoval).find((s) => s.pinned);
-      insertLine = pinned ? pinned.startLine : lines.length;
+      const pinned = this.parseSections(afterRemoval, project).find((s) => s.pinned);
+      insertLine = lines.length;
+      if (pinned) {
+        insertLine = pinned.startLine;
+        while (insertLine > 0 && lines[insertLine - 1].trim() === "") insertLine--;
+        if (insertLine > 0 && lines[insertLine - 1].match(/^---+$/)) insertLine--;
+      }
     } else {
       insertLine = remainingSections[toIndex].startLine;
     }
@@ -1040,8 +1627,241 @@ export default class NoteAssemblerPlugin extends Plugin {
       parts.push(after.join("\n"));
     }
 
-    const newContent = parts.join("\n\n") + "\n";
-    await this.setFileContent(projectFile, newContent);
+    return parts.join("\n\n") + "\n";
+  }
+
+  // ── Section annotations: %% key: value %% lines under the heading ──
+
+  async updateSectionAnnotation(
+    project: Project,
+    headingLine: number,
+    headingText: string,
+    key: string,
+    value: string | undefined
+  ) {
+    const projectFile = this.app.vault.getAbstractFileByPath(project.filePath);
+    if (!(projectFile instanceof TFile)) return;
+
+    const content = await this.getFileContent(projectFile);
+    const lines = content.split("\n");
+    // The outline may be stale: only annotate the section the click was meant for
+    if (sectionTitleAt(lines, headingLine, this.structureFor(project)) !== headingText) {
+      new Notice(`"${headingText}" has moved since the outline was drawn, try again`);
+      this.refreshView();
+      return;
+    }
+    setSectionAnnotation(lines, headingLine, key, value);
+    await this.setFileContent(projectFile, lines.join("\n"), content);
+  }
+
+  async setSectionStatus(
+    project: Project,
+    headingLine: number,
+    headingText: string,
+    status: SectionStatus | undefined
+  ) {
+    await this.updateSectionAnnotation(project, headingLine, headingText, "status", status);
+  }
+
+  async setSectionSynopsis(project: Project, headingLine: number, headingText: string, synopsis: string) {
+    // One line, and no "%%" that would close the comment early
+    const text = synopsis.replace(/\s+/g, " ").replace(/%{2,}/g, "%").trim();
+    await this.updateSectionAnnotation(project, headingLine, headingText, "synopsis", text || undefined);
+  }
+
+  // ── Word targets: per section in the file, for the whole essay in plugin data ──
+
+  async setSectionTarget(
+    project: Project,
+    headingLine: number,
+    headingText: string,
+    target: number | undefined
+  ) {
+    await this.updateSectionAnnotation(
+      project, headingLine, headingText, "target", target === undefined ? undefined : String(target)
+    );
+  }
+
+  async setWordTarget(project: Project, target: number | undefined) {
+    project.wordTarget = target;
+    await this.savePluginData();
+    this.updateStatusBar();
+    this.refreshView();
+  }
+
+  // Your own words vs quoted words across the essay (the pinned section excluded)
+  essayWordCount(project: Project, content: string): WordCount {
+    const lines = content.split("\n");
+    const total: WordCount = { own: 0, quoted: 0 };
+    for (const blk of this.parseBlocks(content, project)) {
+      addBlockWords(total, lines, blk);
+    }
+    return total;
+  }
+
+  // ── Snapshots: kept in the plugin folder, one store per project ──
+
+  snapshotPath(project: Project): string {
+    const dir = this.manifest.dir ?? `${this.app.vault.configDir}/plugins/${this.manifest.id}`;
+    return `${dir}/snapshots/${project.id}.json`;
+  }
+
+  async loadSnapshots(project: Project): Promise<SnapshotStore> {
+    const path = this.snapshotPath(project);
+    const adapter = this.app.vault.adapter;
+    if (!(await adapter.exists(path))) return { lines: [], snapshots: [] };
+    try {
+      const store = JSON.parse(await adapter.read(path));
+      if (Array.isArray(store?.lines) && Array.isArray(store?.snapshots)) return store;
+    } catch {
+      // Fall through and set the unreadable file aside below
+    }
+    // Keep the damaged file rather than letting the next snapshot overwrite it
+    const aside = path.replace(/\.json$/, `.unreadable-${Date.now()}.json`);
+    await adapter.rename(path, aside);
+    new Notice(`Snapshot history for "${project.name}" was unreadable and has been moved to ${aside}`, 8000);
+    return { lines: [], snapshots: [] };
+  }
+
+  async saveSnapshots(project: Project, store: SnapshotStore) {
+    const path = this.snapshotPath(project);
+    const adapter = this.app.vault.adapter;
+    const dir = path.substring(0, path.lastIndexOf("/"));
+    if (!(await adapter.exists(dir))) await adapter.mkdir(dir);
+    await adapter.write(path, JSON.stringify(compactSnapshots(store)));
+  }
+
+  // Returns false when the content matches the latest snapshot (nothing saved)
+  async takeSnapshot(project: Project, label: string, content?: string): Promise<boolean> {
+    if (content === undefined) {
+      const projectFile = this.app.vault.getAbstractFileByPath(project.filePath);
+      if (!(projectFile instanceof TFile)) return false;
+      content = await this.getFileContent(projectFile);
+    }
+
+    const store = await this.loadSnapshots(project);
+    const latest = store.snapshots[store.snapshots.length - 1];
+    if (latest && snapshotText(store, latest) === content) return false;
+
+    const ids = new Map(store.lines.map((line, i) => [line, i] as [string, number]));
+    const lineIds = content.split("\n").map((line) => {
+      let id = ids.get(line);
+      if (id === undefined) {
+        id = store.lines.push(line) - 1;
+        ids.set(line, id);
+      }
+      return id;
+    });
+    store.snapshots.push({ id: generateId(), takenAt: Date.now(), label, runs: encodeRuns(lineIds) });
+    if (store.snapshots.length > MAX_SNAPSHOTS) {
+      store.snapshots.splice(0, store.snapshots.length - MAX_SNAPSHOTS);
+    }
+    await this.saveSnapshots(project, store);
+    return true;
+  }
+
+  async openSnapshots(project: Project) {
+    const projectFile = this.app.vault.getAbstractFileByPath(project.filePath);
+    if (!(projectFile instanceof TFile)) return;
+
+    const store = await this.loadSnapshots(project);
+    if (store.snapshots.length === 0) {
+      new Notice("No snapshots yet \u2014 run \"Snapshot now\" or remove something from the outline");
+      return;
+    }
+    new SnapshotsModal(this.app, this, project, projectFile, store).open();
+  }
+
+  // ── Arrangements: saved section orders, applied as one permutation ──
+
+  async openArrangements(project: Project) {
+    const projectFile = this.app.vault.getAbstractFileByPath(project.filePath);
+    if (!(projectFile instanceof TFile)) return;
+
+    if (!project.arrangements) project.arrangements = [];
+    new ArrangementsModal(
+      this.app,
+      project.arrangements,
+      async (name) => {
+        const content = await this.getFileContent(projectFile);
+        const headings = this.parseSections(content, project)
+          .filter((s) => !s.pinned)
+          .map((s) => s.heading);
+        const arrangements = project.arrangements!;
+        const existing = arrangements.find((a) => a.name === name);
+        if (existing) {
+          existing.headings = headings;
+          existing.savedAt = Date.now();
+        } else {
+          arrangements.push({ id: generateId(), name, headings, savedAt: Date.now() });
+        }
+        await this.savePluginData();
+        new Notice(`Saved arrangement "${name}" (${headings.length} sections)`);
+      },
+      async (arrangement) => {
+        await this.applyArrangement(project, arrangement);
+      },
+      async (arrangementId) => {
+        // In place: the open modal lists this same array
+        const arrangements = project.arrangements!;
+        const i = arrangements.findIndex((a) => a.id === arrangementId);
+        if (i !== -1) arrangements.splice(i, 1);
+        await this.savePluginData();
+      }
+    ).open();
+  }
+
+  async applyArrangement(project: Project, arrangement: Arrangement) {
+    const projectFile = this.app.vault.getAbstractFileByPath(project.filePath);
+    if (!(projectFile instanceof TFile)) return;
+
+    const original = await this.getFileContent(projectFile);
+    let content = original;
+    const headings = this.parseSections(content, project)
+      .filter((s) => !s.pinned)
+      .map((s) => s.heading);
+    const { order, added, missing } = arrangeSections(headings, arrangement.headings);
+
+    // Bring each section to its slot in turn; `current` tracks where they are
+    const current = headings.map((_h, i) => i);
+    order.forEach((section, slot) => {
+      const at = current.indexOf(section);
+      if (at === slot) return;
+      content = this.moveSectionInContent(content, project, at, slot) ?? content;
+      current.splice(slot, 0, current.splice(at, 1)[0]);
+    });
+    await this.setFileContent(projectFile, content, original);
+
+    const notes: string[] = [];
+    if (added > 0) notes.push(`${added} newer section(s) kept with their neighbours`);
+    if (missing > 0) notes.push(`${missing} saved section(s) no longer in the essay`);
+    new Notice(
+      `Switched to "${arrangement.name}"` + (notes.length > 0 ? ` \u2014 ${notes.join(", ")}` : "")
+    );
+  }
+
+  // ── Move the section holding the editor cursor, keeping the cursor on its line ──
+
+  async moveCursorSection(project: Project, editor: Editor, delta: number) {
+    const cursor = editor.getCursor();
+    const draggable = this.parseSections(editor.getValue(), project).filter((s) => !s.pinned);
+    const fromIndex = draggable.findIndex(
+      (s) => cursor.line >= s.startLine && cursor.line < s.endLine
+    );
+    if (fromIndex === -1) {
+      new Notice("Place the cursor inside a section to move it");
+      return;
+    }
+    const toIndex = fromIndex + delta;
+    if (toIndex < 0 || toIndex >= draggable.length) return;
+
+    const offset = cursor.line - draggable[fromIndex].startLine;
+    await this.moveSection(project, fromIndex, toIndex);
+    const moved = this.parseSections(editor.getValue(), project).filter((s) => !s.pinned)[toIndex];
+    if (!moved) return;
+    const line = Math.min(moved.startLine + offset, moved.endLine - 1);
+    editor.setCursor({ line, ch: cursor.ch });
+    editor.scrollIntoView({ from: { line, ch: 0 }, to: { line, ch: 0 } }, true);
   }
 
   // ── Remove a section ──
@@ -1051,7 +1871,7 @@ export default class NoteAssemblerPlugin extends Plugin {
     if (!(projectFile instanceof TFile)) return;
 
     const content = await this.getFileContent(projectFile);
-    const allSections = this.parseSections(content);
+    const allSections = this.parseSections(content, project);
     const draggable = allSections.filter((s) => !s.pinned);
     if (sectionIndex >= draggable.length) return;
 
@@ -1064,7 +1884,72 @@ export default class NoteAssemblerPlugin extends Plugin {
         .join("\n")
         .replace(/\n{3,}/g, "\n\n")
         .trimEnd() + "\n";
-    await this.setFileContent(projectFile, newContent);
+    await this.takeSnapshot(project, `Before removing "${section.heading}"`, content);
+    await this.setFileContent(projectFile, newContent, content);
+  }
+
+  // ── Merge a section with the one below it (one heading, both bodies) ──
+
+  async mergeSectionWithNext(project: Project, sectionIndex: number) {
+    const projectFile = this.app.vault.getAbstractFileByPath(project.filePath);
+    if (!(projectFile instanceof TFile)) return;
+
+    const content = await this.getFileContent(projectFile);
+    const allSections = this.parseSections(content, project);
+    const draggable = allSections.filter((s) => !s.pinned);
+    if (sectionIndex + 1 >= draggable.length) return;
+
+    const next = draggable[sectionIndex + 1];
+    const lines = content.split("\n");
+    // The merged section keeps the first heading and its status
+    lines.splice(next.startLine, annotationEnd(lines, next.startLine) - next.startLine);
+
+    const newContent =
+      lines
+        .join("\n")
+        .replace(/\n{3,}/g, "\n\n")
+        .trimEnd() + "\n";
+    await this.takeSnapshot(project, `Before merging "${next.heading}"`, content);
+    await this.setFileContent(projectFile, newContent, content);
+    new Notice(`Merged "${next.heading}" into "${draggable[sectionIndex].heading}"`);
+  }
+
+  // ── Split a section: a new ## heading starts at the given line ──
+
+  async splitSection(project: Project, atLine: number, heading: string) {
+    const projectFile = this.app.vault.getAbstractFileByPath(project.filePath);
+    if (!(projectFile instanceof TFile)) return;
+
+    const content = await this.getFileContent(projectFile);
+    // Split before the block under the cursor so lists, fences and tables stay whole
+    const enclosing = this.parseBlocks(content, project).find(
+      (b) => atLine > b.startLine && atLine < b.endLine
+    );
+    if (enclosing) atLine = enclosing.startLine;
+    const section = this.parseSections(content, project).find(
+      (s) => !s.pinned && atLine > s.startLine && atLine < s.endLine
+    );
+    if (!section) {
+      new Notice("Place the cursor inside a section's body to split it");
+      return;
+    }
+
+    const lines = content.split("\n");
+    const before = lines.slice(0, atLine);
+    const after = lines.slice(atLine);
+    while (before.length > 0 && before[before.length - 1].trim() === "") before.pop();
+    while (after.length > 0 && after[0].trim() === "") after.shift();
+
+    const parts = [before.join("\n"), sectionOpener(heading, this.structureFor(project))];
+    if (after.length > 0) parts.push(after.join("\n"));
+    await this.setFileContent(projectFile, parts.join("\n\n").trimEnd() + "\n", content);
+    this.scrollEditorToLine(projectFile, before.length + 1);
+  }
+
+  promptSplitSection(project: Project, atLine: number) {
+    new SectionHeadingModal(this.app, "Split Section", (heading) => {
+      this.splitSection(project, atLine, heading);
+    }).open();
   }
 
   // ── Reorder: move a block to a new position ──
@@ -1076,8 +1961,9 @@ export default class NoteAssemblerPlugin extends Plugin {
     if (!(projectFile instanceof TFile)) return;
 
     const content = await this.getFileContent(projectFile);
-    const blocks = this.parseBlocks(content);
+    const blocks = this.parseBlocks(content, project);
     if (fromIndex >= blocks.length || toIndex >= blocks.length) return;
+    if (blocks[fromIndex].type === "frontmatter") return;
 
     const lines = content.split("\n");
     const block = blocks[fromIndex];
@@ -1088,23 +1974,21 @@ export default class NoteAssemblerPlugin extends Plugin {
 
     // Re-parse to find insertion point after removal
     const afterRemoval = lines.join("\n");
-    const remainingBlocks = this.parseBlocks(afterRemoval);
+    const remainingBlocks = this.parseBlocks(afterRemoval, project);
+    // Nothing goes above the frontmatter
+    if (toIndex === 0 && remainingBlocks[0]?.type === "frontmatter") toIndex = 1;
 
     let insertLine: number;
     if (toIndex >= remainingBlocks.length) {
       // Insert at end (before pinned section)
-      const pinnedName = this.data.settings.pinnedSectionName;
       const afterLines = afterRemoval.split("\n");
+      const pinned = this.parseSections(afterRemoval, project).find((s) => s.pinned);
       insertLine = afterLines.length;
-      for (let j = 0; j < afterLines.length; j++) {
-        const m = afterLines[j].match(/^## (.+)$/);
-        if (m && m[1].trim() === pinnedName) {
-          insertLine = j;
-          while (insertLine > 0 && afterLines[insertLine - 1].trim() === "") insertLine--;
-          if (insertLine > 0 && afterLines[insertLine - 1].match(/^---+$/)) insertLine--;
-          while (insertLine > 0 && afterLines[insertLine - 1].trim() === "") insertLine--;
-          break;
-        }
+      if (pinned) {
+        insertLine = pinned.startLine;
+        while (insertLine > 0 && afterLines[insertLine - 1].trim() === "") insertLine--;
+        if (insertLine > 0 && afterLines[insertLine - 1].match(/^---+$/)) insertLine--;
+        while (insertLine > 0 && afterLines[insertLine - 1].trim() === "") insertLine--;
       }
     } else {
       insertLine = remainingBlocks[toIndex].startLine;
@@ -1127,7 +2011,7 @@ export default class NoteAssemblerPlugin extends Plugin {
     if (after.length > 0) parts.push(after.join("\n"));
 
     const newContent = parts.join("\n\n") + "\n";
-    await this.setFileContent(projectFile, newContent);
+    await this.setFileContent(projectFile, newContent, content);
   }
 
   // ── Remove a block ──
@@ -1137,10 +2021,11 @@ export default class NoteAssemblerPlugin extends Plugin {
     if (!(projectFile instanceof TFile)) return;
 
     const content = await this.getFileContent(projectFile);
-    const blocks = this.parseBlocks(content);
+    const blocks = this.parseBlocks(content, project);
     if (blockIndex >= blocks.length) return;
 
     const block = blocks[blockIndex];
+    if (block.type === "frontmatter") return;
     const lines = content.split("\n");
     lines.splice(block.startLine, block.endLine - block.startLine);
 
@@ -1149,7 +2034,8 @@ export default class NoteAssemblerPlugin extends Plugin {
         .join("\n")
         .replace(/\n{3,}/g, "\n\n")
         .trimEnd() + "\n";
-    await this.setFileContent(projectFile, newContent);
+    await this.takeSnapshot(project, `Before removing "${block.headingText ?? block.preview}"`, content);
+    await this.setFileContent(projectFile, newContent, content);
   }
 
   // ── Reorder: move a group of blocks (heading + children) to a new position ──
@@ -1162,12 +2048,13 @@ export default class NoteAssemblerPlugin extends Plugin {
     if (!(projectFile instanceof TFile)) return;
 
     const content = await this.getFileContent(projectFile);
-    const blocks = this.parseBlocks(content);
+    const blocks = this.parseBlocks(content, project);
     const lines = content.split("\n");
 
     // Collect all lines for the group (heading + children are contiguous)
     const firstBlock = blocks[fromIndices[0]];
     const lastBlock = blocks[fromIndices[fromIndices.length - 1]];
+    if (!firstBlock || !lastBlock || firstBlock.type === "frontmatter") return;
     const groupLines = lines.slice(firstBlock.startLine, lastBlock.endLine);
 
     // Remove group from original position
@@ -1175,23 +2062,21 @@ export default class NoteAssemblerPlugin extends Plugin {
 
     // Re-parse to find insertion point after removal
     const afterRemoval = lines.join("\n");
-    const remainingBlocks = this.parseBlocks(afterRemoval);
+    const remainingBlocks = this.parseBlocks(afterRemoval, project);
+    // Nothing goes above the frontmatter
+    if (toIndex === 0 && remainingBlocks[0]?.type === "frontmatter") toIndex = 1;
 
     let insertLine: number;
     if (toIndex >= remainingBlocks.length) {
       // Insert at end (before pinned section)
-      const pinnedName = this.data.settings.pinnedSectionName;
       const afterLines = afterRemoval.split("\n");
+      const pinned = this.parseSections(afterRemoval, project).find((s) => s.pinned);
       insertLine = afterLines.length;
-      for (let j = 0; j < afterLines.length; j++) {
-        const m = afterLines[j].match(/^## (.+)$/);
-        if (m && m[1].trim() === pinnedName) {
-          insertLine = j;
-          while (insertLine > 0 && afterLines[insertLine - 1].trim() === "") insertLine--;
-          if (insertLine > 0 && afterLines[insertLine - 1].match(/^---+$/)) insertLine--;
-          while (insertLine > 0 && afterLines[insertLine - 1].trim() === "") insertLine--;
-          break;
-        }
+      if (pinned) {
+        insertLine = pinned.startLine;
+        while (insertLine > 0 && afterLines[insertLine - 1].trim() === "") insertLine--;
+        if (insertLine > 0 && afterLines[insertLine - 1].match(/^---+$/)) insertLine--;
+        while (insertLine > 0 && afterLines[insertLine - 1].trim() === "") insertLine--;
       }
     } else {
       insertLine = remainingBlocks[toIndex].startLine;
@@ -1214,7 +2099,112 @@ export default class NoteAssemblerPlugin extends Plugin {
     if (after.length > 0) parts.push(after.join("\n"));
 
     const newContent = parts.join("\n\n") + "\n";
-    await this.setFileContent(projectFile, newContent);
+    await this.setFileContent(projectFile, newContent, content);
+  }
+
+  // ── Batch: move, remove, extract or tag a multi-block selection ──
+
+  async moveBlocks(project: Project, indices: number[], toIndex: number) {
+    const projectFile = this.app.vault.getAbstractFileByPath(project.filePath);
+    if (!(projectFile instanceof TFile)) return;
+
+    const content = await this.getFileContent(projectFile);
+    const blocks = this.parseBlocks(content, project);
+    const picked = pickBlocks(blocks, indices);
+    if (picked.length === 0) return;
+    // Nothing goes above the frontmatter
+    if (toIndex === 0 && blocks[0]?.type === "frontmatter") toIndex = 1;
+
+    const lines = content.split("\n");
+    let insertLine: number;
+    if (toIndex >= blocks.length) {
+      // Insert at end (before pinned section)
+      const pinned = this.parseSections(content, project).find((s) => s.pinned);
+      insertLine = lines.length;
+      if (pinned) {
+        insertLine = pinned.startLine;
+        while (insertLine > 0 && lines[insertLine - 1].trim() === "") insertLine--;
+        if (insertLine > 0 && lines[insertLine - 1].match(/^---+$/)) insertLine--;
+        while (insertLine > 0 && lines[insertLine - 1].trim() === "") insertLine--;
+      }
+    } else {
+      insertLine = blocks[toIndex].startLine;
+    }
+
+    // Picked blocks travel in document order, one paragraph apart
+    const chunks = picked.map((blk) => lines.slice(blk.startLine, blk.endLine).join("\n"));
+    const removed = blockLineSet(lines, picked);
+    const before = lines.slice(0, insertLine).filter((_l, i) => !removed.has(i));
+    const after = lines.slice(insertLine).filter((_l, i) => !removed.has(insertLine + i));
+
+    while (before.length > 0 && before[before.length - 1].trim() === "") before.pop();
+    while (after.length > 0 && after[0].trim() === "") after.shift();
+
+    const parts: string[] = [];
+    if (before.length > 0) parts.push(before.join("\n"));
+    parts.push(...chunks);
+    if (after.length > 0) parts.push(after.join("\n"));
+
+    await this.setFileContent(projectFile, parts.join("\n\n").trimEnd() + "\n", content);
+  }
+
+  async removeBlocks(project: Project, indices: number[]) {
+    const projectFile = this.app.vault.getAbstractFileByPath(project.filePath);
+    if (!(projectFile instanceof TFile)) return;
+
+    const content = await this.getFileContent(projectFile);
+    const picked = pickBlocks(this.parseBlocks(content, project), indices);
+    if (picked.length === 0) return;
+
+    const lines = content.split("\n");
+    const removed = blockLineSet(lines, picked);
+    const newContent = lines.filter((_l, i) => !removed.has(i)).join("\n").trimEnd() + "\n";
+    await this.takeSnapshot(project, `Before removing ${picked.length} blocks`, content);
+    await this.setFileContent(projectFile, newContent, content);
+  }
+
+  async extractBlocks(project: Project, indices: number[]) {
+    const projectFile = this.app.vault.getAbstractFileByPath(project.filePath);
+    if (!(projectFile instanceof TFile)) return;
+
+    const content = await this.getFileContent(projectFile);
+    const picked = pickBlocks(this.parseBlocks(content, project), indices);
+    if (picked.length === 0) return;
+
+    const lines = content.split("\n");
+    const text = picked
+      .map((blk) => lines.slice(blk.startLine, blk.endLine).join("\n"))
+      .join("\n\n");
+    await this.extractSelectionToNote(project, text);
+  }
+
+  async tagBlocks(project: Project, indices: number[], tag: string) {
+    const projectFile = this.app.vault.getAbstractFileByPath(project.filePath);
+    if (!(projectFile instanceof TFile)) return;
+
+    const content = await this.getFileContent(projectFile);
+    const picked = pickBlocks(this.parseBlocks(content, project), indices);
+    const lines = content.split("\n");
+    const tagText = `#${tag}`;
+    let tagged = 0;
+    let skipped = 0;
+    for (const blk of picked) {
+      // Headings, fences, tables and embeds would change meaning with a trailing tag
+      if (!TAGGABLE_BLOCK_TYPES.includes(blk.type)) {
+        skipped++;
+        continue;
+      }
+      const last = blk.endLine - 1;
+      if (lines[last].split(/\s+/).includes(tagText)) continue;
+      lines[last] = `${lines[last].trimEnd()} ${tagText}`;
+      tagged++;
+    }
+
+    if (tagged > 0) await this.setFileContent(projectFile, lines.join("\n"), content);
+    new Notice(
+      `Tagged ${tagged} block${tagged === 1 ? "" : "s"} with ${tagText}` +
+        (skipped > 0 ? ` (${skipped} heading, code, table or embed block${skipped === 1 ? "" : "s"} skipped)` : "")
+    );
   }
 
   // ── Extract a section back to a standalone note ──
@@ -1224,7 +2214,7 @@ export default class NoteAssemblerPlugin extends Plugin {
     if (!(projectFile instanceof TFile)) return;
 
     const content = await this.getFileContent(projectFile);
-    const allSections = this.parseSections(content);
+    const allSections = this.parseSections(content, project);
     const draggable = allSections.filter((s) => !s.pinned);
     if (sectionIndex >= draggable.length) return;
 
@@ -1266,7 +2256,7 @@ export default class NoteAssemblerPlugin extends Plugin {
             .join("\n");
           if (!sourcesBody.includes(`[[${safeName}]]`)) {
             lines.splice(sourcesSection.endLine, 0, `- [[${safeName}]]`);
-            await this.setFileContent(projectFile, lines.join("\n"));
+            await this.setFileContent(projectFile, lines.join("\n"), content);
           }
         } else {
           const pinnedName = this.data.settings.pinnedSectionName;
@@ -1275,7 +2265,7 @@ export default class NoteAssemblerPlugin extends Plugin {
             `\n\n---\n\n## ${pinnedName}\n\n` +
             `- [[${safeName}]]` +
             "\n";
-          await this.setFileContent(projectFile, newContent);
+          await this.setFileContent(projectFile, newContent, content);
         }
 
         new Notice(`Extracted "${section.heading}" to ${targetPath}`);
@@ -1283,73 +2273,724 @@ export default class NoteAssemblerPlugin extends Plugin {
     ).open();
   }
 
-  // ── Copy clean export to clipboard ──
+  // ── Build the clean essay text for an export profile ──
 
-  async copyCleanExport(project: Project) {
+  async buildCleanExport(
+    project: Project,
+    profile: ExportProfile,
+    part?: ExportPart
+  ): Promise<string | null> {
     const projectFile = this.app.vault.getAbstractFileByPath(project.filePath);
-    if (!(projectFile instanceof TFile)) return;
+    if (!(projectFile instanceof TFile)) return null;
 
     const content = await this.getFileContent(projectFile);
-    const allSections = this.parseSections(content);
-    const draggable = allSections.filter((s) => !s.pinned);
+    const allSections = this.parseSections(content, project);
+    const draggable = allSections.filter(
+      (s) => !s.pinned && (!part || part.headings.includes(s.heading))
+    );
 
     if (draggable.length === 0) {
       new Notice("Nothing to export");
-      return;
+      return null;
     }
 
     const lines = content.split("\n");
-    const includeHeadings = this.data.settings.exportIncludeHeadings;
-    const parts: string[] = [];
-    for (const section of draggable) {
-      let sectionLines = lines.slice(section.startLine, section.endLine);
-      if (!includeHeadings) {
-        sectionLines = sectionLines.filter((l) => !l.match(/^## .+$/));
-      }
-      parts.push(sectionLines.join("\n"));
-    }
+    const strip = (text: string) => this.stripSectionChrome(text, project, profile.includeHeadings);
+    const parts = draggable.map((section) =>
+      strip(lines.slice(section.startLine, section.endLine).join("\n"))
+    );
 
     let output = parts.join("\n\n");
-    // Strip source attribution links: [[note|*]] → empty
-    output = output.replace(/\[\[[^\]|]+\|\*]]/g, "");
+    output = await this.resolveEmbeds(output, projectFile.path, [projectFile.path], strip);
+    let trailer: string[] = [];
+    const pinned = allSections.find((s) => s.pinned);
+    const pinnedText = pinned
+      ? lines.slice(pinned.startLine, pinned.endLine).join("\n")
+      : "";
+    // Word and Pandoc exports turn [[note|*]] into footnotes / citekeys themselves
+    const attributions =
+      (profile.format === "docx" || profile.format === "pandoc") &&
+      profile.attributions !== "strip"
+        ? "keep"
+        : profile.attributions;
+    if (attributions === "footnotes" || attributions === "citations") {
+      const style = attributions === "footnotes" ? "footnotes" : profile.citationStyle;
+      const cited = await this.citeAttributions(
+        project, output, pinnedText, style, profile.sourcesAsBibliography
+      );
+      output = cited.text;
+      trailer = cited.trailer;
+    } else if (attributions === "strip") {
+      // Strip source attribution links: [[note|*]] → empty
+      output = output.replace(/\[\[[^\]|]+\|\*]]/g, "");
+    } else if (profile.format !== "docx" && profile.format !== "pandoc") {
+      // Keep: [[note|*]] → [[note]], so it ends up as a permalink or the note name
+      output = output.replace(/\[\[([^\]|]+)\|\*]]/g, "[[$1]]");
+    }
+    if (profile.sourcesAsBibliography && attributions !== "citations") {
+      trailer.push(...(await this.sourcesBibliography(project, pinnedText)));
+    }
+    if (profile.format === "bundle") {
+      output = this.rewriteToPermalinks(output, projectFile.path, profile.permalinkPattern);
+    }
     // Strip remaining wikilinks: [[Target|Display]] → Display, [[Target]] → Target
-    output = output.replace(/\[\[([^\]|]+)\|([^\]]+)]]/g, "$2");
-    output = output.replace(/\[\[([^\]]+)]]/g, "$1");
+    output = output.replace(/\[\[([^\]|]+)\|(?!\*]])([^\]]+)]]/g, "$2");
+    output = output.replace(/\[\[([^\]|]+)]]/g, "$1");
     // Clean up excess blank lines
     output = output.replace(/\n{3,}/g, "\n\n").trim();
-
-    await navigator.clipboard.writeText(output);
-    const wordCount = output
-      .split(/\s+/)
-      .filter((w) => w.length > 0).length;
-    new Notice(`Copied to clipboard (${wordCount} words)`);
-  }
-
-  async untrackProject(projectId: string) {
-    const project = this.data.projects.find((p) => p.id === projectId);
-    if (project) project.archived = true;
-    if (this.data.activeProjectId === projectId) {
-      this.data.activeProjectId = this.activeProjects()[0]?.id ?? null;
+    if (trailer.length > 0) {
+      output += "\n\n" + trailer.join("\n").trim();
     }
-    await this.savePluginData();
-    this.updateProjectFileClass();
-    this.updateStatusBar();
-    this.refreshView();
+
+    return output;
   }
 
-  async unarchiveProject(projectId: string) {
-    const project = this.data.projects.find((p) => p.id === projectId);
-    if (project) {
-      project.archived = false;
-      this.data.activeProjectId = project.id;
-      await this.savePluginData();
-      this.updateProjectFileClass();
-      this.updateStatusBar();
-      this.refreshView();
+  // ── Drop section openers (unless kept) and annotations from exported text ──
+
+  stripSectionChrome(text: string, project: Project, includeHeadings: boolean): string {
+    const lines = text.split("\n");
+    const drop = new Set<number>();
+    for (const section of this.parseSections(text, project)) {
+      // %% section %% markers are comments, so they never reach the output
+      const marker = lines[section.startLine].match(SECTION_MARKER);
+      if (!includeHeadings || marker) drop.add(section.startLine);
+      // Annotations only count directly under the opener, never inside code
+      for (let i = section.startLine + 1; i < annotationEnd(lines, section.startLine); i++) {
+        drop.add(i);
+      }
+      // An untitled marker is named after the heading below it, which goes too
+      if (marker && !marker[1] && !includeHeadings) {
+        let title = section.startLine + 1;
+        while (
+          title < section.endLine &&
+          (lines[title].trim() === "" || SECTION_ANNOTATION.test(lines[title]))
+        ) title++;
+        if (title < section.endLine && /^#{1,6}\s/.test(lines[title])) drop.add(title);
+      }
     }
+    return lines
+      .filter((_l, i) => !drop.has(i))
+      .join("\n");
   }
 
-  // ── Sample project ──
+  // ── Inline ![[embeds]] recursively (notes, #headings, #^blocks, images) ──
+
+  async resolveEmbeds(
+    text: string,
+    sourcePath: string,
+    stack: string[],
+    strip: (embedded: string) => string,
+    skipped: string[] = []
+  ): Promise<string> {
+    const embedRe = /!\[\[([^\]|]+)(?:\|([^\]]*))?]]/g;
+    const matches = [...text.matchAll(embedRe)];
+    if (matches.length === 0) return text;
+
+    let result = "";
+    let last = 0;
+    for (const m of matches) {
+      result += text.slice(last, m.index);
+      last = (m.index ?? 0) + m[0].length;
+
+      const target = m[1].trim();
+      const hashIdx = target.indexOf("#");
+      const linkpath = hashIdx === -1 ? target : target.slice(0, hashIdx);
+      const subpath = hashIdx === -1 ? "" : target.slice(hashIdx + 1);
+      const file = linkpath
+        ? this.app.metadataCache.getFirstLinkpathDest(linkpath, sourcePath)
+        : this.app.vault.getAbstractFileByPath(sourcePath);
+      const display = m[2]?.trim() || target;
+
+      if (!(file instanceof TFile)) {
+        skipped.push(`${target} (not found)`);
+        result += display;
+        continue;
+      }
+
+      if (IMAGE_EXTENSIONS.includes(file.extension.toLowerCase())) {
+        // ![[img.png|300]] — a bare number is a size, not alt text
+        const alt = m[2] && !/^\d+(x\d+)?$/.test(m[2].trim()) ? m[2].trim() : file.basename;
+        result += `![${alt}](${encodeURI(file.path)})`;
+        continue;
+      }
+      if (file.extension !== "md") {
+        result += `[${m[2]?.trim() || file.name}](${encodeURI(file.path)})`;
+        continue;
+      }
+
+      const key = subpath ? `${file.path}#${subpath}` : file.path;
+      if (stack.includes(key) || (!subpath && stack.includes(file.path))) {
+        skipped.push(`${target} (embeds itself)`);
+        result += display;
+        continue;
+      }
+      if (stack.length > MAX_EMBED_DEPTH) {
+        skipped.push(`${target} (nested too deep)`);
+        result += display;
+        continue;
+      }
+
+      const raw = await this.app.vault.read(file);
+      let embedded = subpath.startsWith("^")
+        ? extractBlock(raw, this.app.metadataCache.getFileCache(file)?.blocks?.[subpath.slice(1).toLowerCase()])
+        : subpath
+          ? extractHeadingSection(raw, subpath)
+          : raw.replace(/^---\n[\s\S]*?\n---\n?/, "");
+      if (embedded === null) {
+        skipped.push(`${target} (section not found)`);
+        result += display;
+        continue;
+      }
+      // Embedded notes follow the same heading and annotation rules as the essay
+      embedded = await this.resolveEmbeds(
+        strip(embedded).trim(), file.path, [...stack, key], strip, skipped
+      );
+      result += embedded;
+    }
+    result += text.slice(last);
+
+    // Report once, from the outermost call
+    if (stack.length === 1 && skipped.length > 0) {
+      new Notice(`Left ${skipped.length} embed(s) unresolved: ${skipped.join(", ")}`, 8000);
+    }
+    return result;
+  }
+
+  // ── Rewrite [[wikilinks]] to site URLs (bundle export) ──
+
+  rewriteToPermalinks(text: string, sourcePath: string, pattern: string): string {
+    // Unresolved links are left for the plain-text stripping that follows
+    return text.replace(/\[\[([^\]|]+)(?:\|([^\]]+))?]]/g, (match, target: string, display?: string) => {
+      const [linkpath, ...headingParts] = target.split("#");
+      const file = this.app.metadataCache.getFirstLinkpathDest(linkpath.trim(), sourcePath);
+      if (!(file instanceof TFile) || file.extension !== "md") return match;
+      const fm = this.app.metadataCache.getFileCache(file)?.frontmatter ?? {};
+      const heading = headingParts.pop()?.trim();
+      const url = buildPermalink(pattern, file, fm) + (heading ? `#${slugify(heading)}` : "");
+      return `[${display?.trim() || heading || file.basename}](${url})`;
+    });
+  }
+
+  // ── Turn [[note|*]] attributions into citations (footnotes or inline) ──
+
+  async citeAttributions(
+    project: Project,
+    text: string,
+    pinnedText: string,
+    style: CitationStyle | "footnotes",
+    includeListed: boolean
+  ): Promise<{ text: string; trailer: string[] }> {
+    const pinnedLinks = parseWikilinks(pinnedText);
+    const order: string[] = [];
+    const names = text.match(/\[\[([^\]|]+)\|\*]]/g) ?? [];
+    for (const link of names) {
+      const name = link.slice(2, link.indexOf("|")).trim();
+      if (!order.includes(name)) order.push(name);
+    }
+    // Bibliography covers cited sources, plus the pinned list when asked
+    const listed = includeListed
+      ? pinnedLinks
+          .map((l) => l.split("/").pop() as string)
+          .filter((name) => !order.includes(name))
+      : [];
+
+    const sources = new Map<string, CitationSource>();
+    for (const name of [...order, ...listed]) {
+      sources.set(name, await this.loadCitationSource(project, name, pinnedLinks));
+    }
+
+    const usesNotes = style === "footnotes" || style === "chicago";
+    const cited = text.replace(/[ \t]*\[\[([^\]|]+)\|\*]]/g, (_m, name: string) => {
+      const key = name.trim();
+      if (usesNotes) return `[^${order.indexOf(key) + 1}]`;
+      return " " + formatCitation(sources.get(key)!, style, "inline");
+    });
+
+    const trailer: string[] = [];
+    if (usesNotes) {
+      order.forEach((name, i) => {
+        const src = sources.get(name)!;
+        const note =
+          style === "footnotes" ? basicCitation(src) : formatCitation(src, style, "note");
+        trailer.push(`[^${i + 1}]: ${note}`);
+      });
+    }
+    if (style !== "footnotes" && sources.size > 0) {
+      const heading = CITATION_BIBLIOGRAPHY_HEADINGS[style];
+      const entries = [...sources.values()]
+        .map((src) => formatCitation(src, style, "bibliography"))
+        .sort((a, b) => a.localeCompare(b));
+      if (trailer.length > 0) trailer.push("");
+      trailer.push(`## ${heading}`, "", entries.join("\n\n"));
+    }
+
+    const missing = [...sources.keys()].filter((name) => sources.get(name)!.missing);
+    if (missing.length > 0) {
+      new Notice(
+        `Missing citation metadata for ${missing.join(", ")} \u2014 used the note name instead`,
+        8000
+      );
+    }
+
+    return { text: cited, trailer };
+  }
+
+  // ── Pinned Sources section as a plain bibliography ──
+
+  async sourcesBibliography(project: Project, pinnedText: string): Promise<string[]> {
+    const pinnedLinks = parseWikilinks(pinnedText);
+    if (pinnedLinks.length === 0) return [];
+    const entries: string[] = [];
+    for (const link of pinnedLinks) {
+      const name = link.split("/").pop() as string;
+      const src = await this.loadCitationSource(project, name, pinnedLinks);
+      entries.push(`- ${basicCitation(src)}`);
+    }
+    return ["", `## ${this.data.settings.pinnedSectionName}`, "", ...entries];
+  }
+
+  // ── Gather citation fields from a source note (body metadata + frontmatter) ──
+
+  async loadCitationSource(
+    project: Project,
+    name: string,
+    pinnedLinks: string[]
+  ): Promise<CitationSource> {
+    const src: CitationSource = {
+      name,
+      author: "",
+      title: "",
+      url: "",
+      category: "",
+      date: "",
+      citekey: "",
+      missing: false,
+    };
+    const file = this.resolveSourceNote(project, name, pinnedLinks);
+    if (file) {
+      const meta = parseSourceMetadata(await this.app.vault.read(file));
+      const fm = this.app.metadataCache.getFileCache(file)?.frontmatter ?? {};
+      const fmString = (...keys: string[]): string => {
+        for (const key of keys) {
+          const value = fm[key];
+          if (typeof value === "string" || typeof value === "number") {
+            return String(value).trim();
+          }
+          // "; " keeps list entries apart even when one is "Doe, Jane"
+          if (Array.isArray(value) && value.length > 0) return value.join("; ");
+        }
+        return "";
+      };
+      src.author = (fmString("author", "authors") || meta.author).replace(/\[\[|\]\]/g, "");
+      src.title = fmString("title") || meta.title;
+      src.url = fmString("url", "source", "link") || meta.url;
+      src.category = fmString("category", "type") || meta.category;
+      src.date = fmString("date", "published", "year");
+      src.citekey = fmString("citekey", "citationKey", "citation-key").replace(/^@/, "");
+    }
+    if (!src.author || !src.title) src.missing = true;
+    if (!src.title) src.title = name;
+    return src;
+  }
+
+  // ── Resolve an attribution name to its note (queue → Sources list → vault) ──
+
+  resolveSourceNote(project: Project, name: string, pinnedLinks: string[]): TFile | null {
+    for (const source of project.sources) {
+      const file = this.app.vault.getAbstractFileByPath(source.notePath);
+      if (file instanceof TFile && file.basename === name) return file;
+    }
+    const listed = pinnedLinks.find((l) => l.split("/").pop() === name) ?? name;
+    return this.app.metadataCache.getFirstLinkpathDest(listed, project.filePath);
+  }
+
+  // ── Run an export profile (format × destination) ──
+
+  async runExportProfile(
+    project: Project,
+    profile: ExportProfile | undefined,
+    part?: ExportPart
+  ) {
+    if (!profile) {
+      new Notice("No export profiles \u2014 add one in Cairn settings");
+      return;
+    }
+    const output = await this.buildCleanExport(project, profile, part);
+    if (output === null) return;
+    const title = part?.name ? `${project.name} \u2014 ${part.name}` : project.name;
+
+    if (profile.destination === "clipboard" && !FILE_ONLY_FORMATS.includes(profile.format)) {
+      if (profile.format === "html") {
+        await this.copyHtmlExport(output);
+      } else {
+        await navigator.clipboard.writeText(output);
+        new Notice(`Copied to clipboard (${countWords(output)} words)`);
+      }
+      return;
+    }
+
+    const folder =
+      profile.destination === "essay"
+        ? project.filePath.split("/").slice(0, -1).join("/")
+        : profile.folder;
+    if (profile.format === "html") {
+      await this.exportHtmlFile(project, output, folder, title);
+    } else if (profile.format === "docx") {
+      await this.exportDocx(project, output, folder, title);
+    } else if (profile.format === "pandoc") {
+      await this.exportPandoc(project, output, folder, title);
+    } else if (profile.format === "bundle") {
+      await this.exportBundle(project, output, folder, title);
+    } else {
+      await this.exportToFile(project, output, folder, title);
+    }
+  }
+
+  // ── Export a subset of sections (optionally saved as a named part) ──
+
+  async openSectionExport(project: Project, part: ExportPart | null) {
+    const projectFile = this.app.vault.getAbstractFileByPath(project.filePath);
+    if (!(projectFile instanceof TFile)) return;
+
+    const content = await this.getFileContent(projectFile);
+    const sections = this.parseSections(content, project).filter((s) => !s.pinned);
+    if (sections.length === 0) {
+      new Notice("Nothing to export");
+      return;
+    }
+
+    if (part) {
+      const missing = part.headings.filter(
+        (h) => !sections.some((s) => s.heading === h)
+      );
+      if (missing.length > 0) {
+        new Notice(`"${part.name}": ${missing.length} section(s) no longer in the essay`);
+      }
+    }
+
+    new SectionExportModal(
+      this.app,
+      sections.map((s) => s.heading),
+      this.data.settings.exportProfiles,
+      part,
+      async (headings, profile) => {
+        await this.runExportProfile(project, profile, {
+          id: part?.id ?? "",
+          name: part?.name ?? "",
+          headings,
+        });
+      },
+      async (name, headings) => {
+        if (!project.exportParts) project.exportParts = [];
+        const existing = project.exportParts.find((p) => p.name === name);
+        if (existing) {
+          existing.headings = headings;
+        } else {
+          project.exportParts.push({ id: generateId(), name, headings });
+        }
+        await this.savePluginData();
+        new Notice(`Saved part "${name}" (${headings.length} sections)`);
+      },
+      async (partId) => {
+        project.exportParts = (project.exportParts ?? []).filter((p) => p.id !== partId);
+        await this.savePluginData();
+      }
+    ).open();
+  }
+
+  // ── Pick the export path (creates folder, versions unless overwriting) ──
+
+  async resolveExportPath(
+    title: string,
+    extension: string,
+    folder: string
+  ): Promise<string> {
+    if (folder && !this.app.vault.getAbstractFileByPath(folder)) {
+      await this.app.vault.createFolder(folder);
+    }
+
+    const baseName = sanitizeFilename(title) || "Untitled essay";
+    const basePath = folder ? `${folder}/${baseName}` : baseName;
+    const targetPath = `${basePath}.${extension}`;
+    if (
+      this.data.settings.exportOverwrite ||
+      !this.app.vault.getAbstractFileByPath(targetPath)
+    ) {
+      return targetPath;
+    }
+    // Version instead of overwriting: "Name v2.md", "Name v3.md", ...
+    let version = 2;
+    while (this.app.vault.getAbstractFileByPath(`${basePath} v${version}.${extension}`)) {
+      version++;
+    }
+    return `${basePath} v${version}.${extension}`;
+  }
+
+  // ── Write clean export to a vault file with frontmatter ──
+
+  async exportToFile(project: Project, output: string, folder: string, title: string) {
+    const targetPath = await this.resolveExportPath(title, "md", folder);
+
+    const wordCount = countWords(output);
+    const frontmatter = [
+      "---",
+      `title: ${yamlString(title)}`,
+      `project: ${yamlString(project.name)}`,
+      `source: ${yamlString(project.filePath)}`,
+      `exported: ${new Date().toISOString()}`,
+      `words: ${wordCount}`,
+      "---",
+      "",
+    ].join("\n");
+    const fileContent = frontmatter + output + "\n";
+
+    const target = this.app.vault.getAbstractFileByPath(targetPath);
+    if (target instanceof TFile) {
+      await this.app.vault.modify(target, fileContent);
+    } else {
+      await this.app.vault.create(targetPath, fileContent);
+    }
+    new Notice(`Exported to ${targetPath} (${wordCount} words)`);
+  }
+
+  // ── HTML export: standalone file with inline CSS ──
+
+  async exportHtmlFile(project: Project, output: string, folder: string, title: string) {
+    const targetPath = await this.resolveExportPath(title, "html", folder);
+    const html = buildStandaloneHtml(title, markdownToHtml(output));
+
+    const target = this.app.vault.getAbstractFileByPath(targetPath);
+    if (target instanceof TFile) {
+      await this.app.vault.modify(target, html);
+    } else {
+      await this.app.vault.create(targetPath, html);
+    }
+    new Notice(`Exported HTML to ${targetPath}`);
+  }
+
+  // ── HTML export: fragment to clipboard as text/html ──
+
+  async copyHtmlExport(output: string) {
+    const html = markdownToHtml(output);
+    await navigator.clipboard.write([
+      new ClipboardItem({
+        "text/html": new Blob([html], { type: "text/html" }),
+        "text/plain": new Blob([output], { type: "text/plain" }),
+      }),
+    ]);
+    new Notice(`Copied HTML to clipboard (${countWords(output)} words)`);
+  }
+
+  // ── DOCX export: Word document with real footnotes for attributions ──
+
+  async exportDocx(project: Project, output: string, folder: string, title: string) {
+    const targetPath = await this.resolveExportPath(title, "docx", folder);
+    const docx = buildDocx(title, output);
+
+    const target = this.app.vault.getAbstractFileByPath(targetPath);
+    if (target instanceof TFile) {
+      await this.app.vault.modifyBinary(target, docx.buffer as ArrayBuffer);
+    } else {
+      await this.app.vault.createBinary(targetPath, docx.buffer as ArrayBuffer);
+    }
+    new Notice(`Exported Word document to ${targetPath}`);
+  }
+
+  // ── Static-site page bundle: index.md + copied attachments ──
+
+  async exportBundle(project: Project, output: string, folder: string, title: string) {
+    const projectFile = this.app.vault.getAbstractFileByPath(project.filePath);
+    if (!(projectFile instanceof TFile)) return;
+    const fm = this.app.metadataCache.getFileCache(projectFile)?.frontmatter ?? {};
+
+    const slug = (typeof fm.slug === "string" && fm.slug) || slugify(title) || "essay";
+    const base = folder ? `${folder}/${slug}` : slug;
+    let bundlePath = base;
+    if (!this.data.settings.exportOverwrite) {
+      // Version instead of overwriting: "slug-2", "slug-3", ...
+      let version = 2;
+      while (this.app.vault.getAbstractFileByPath(bundlePath)) {
+        bundlePath = `${base}-${version++}`;
+      }
+    }
+    if (folder && !this.app.vault.getAbstractFileByPath(folder)) {
+      await this.app.vault.createFolder(folder);
+    }
+    if (!this.app.vault.getAbstractFileByPath(bundlePath)) {
+      await this.app.vault.createFolder(bundlePath);
+    }
+
+    // Copy every local attachment the essay links or embeds, rewriting to ./name
+    const copied = new Map<string, string>(); // vault path → bundle file name
+    const writeFile = async (path: string, data: string | ArrayBuffer) => {
+      const existing = this.app.vault.getAbstractFileByPath(path);
+      if (existing instanceof TFile) {
+        if (typeof data === "string") await this.app.vault.modify(existing, data);
+        else await this.app.vault.modifyBinary(existing, data);
+      } else if (typeof data === "string") {
+        await this.app.vault.create(path, data);
+      } else {
+        await this.app.vault.createBinary(path, data);
+      }
+    };
+    const linkRe = /(!?)\[([^\]]*)]\(([^)\s]+)\)/g;
+    for (const m of output.matchAll(linkRe)) {
+      const url = m[3];
+      if (copied.has(url) || /^([a-z][a-z0-9+.-]*:|\/|#)/i.test(url)) continue;
+      let vaultPath: string;
+      try {
+        vaultPath = decodeURI(url);
+      } catch {
+        continue;
+      }
+      const file = this.app.vault.getAbstractFileByPath(vaultPath);
+      if (!(file instanceof TFile) || file.extension === "md") continue;
+      let name = file.name;
+      let n = 2;
+      while ([...copied.values()].includes(name)) {
+        name = `${file.basename}-${n++}.${file.extension}`;
+      }
+      await writeFile(`${bundlePath}/${name}`, await this.app.vault.readBinary(file));
+      copied.set(url, name);
+    }
+    const rewritten = output.replace(linkRe, (match, bang: string, label: string, url: string) => {
+      const name = copied.get(url);
+      return name ? `${bang}[${label}](${encodeURI(name)})` : match;
+    });
+
+    const tags = normalizeTags(fm.tags);
+    const summary = fm.summary ?? fm.description;
+    const date =
+      typeof fm.date === "string" ? fm.date : new Date().toISOString().slice(0, 10);
+    const frontmatter = [
+      "---",
+      `title: ${yamlString(title)}`,
+      `date: ${date}`,
+      ...(tags.length > 0 ? [`tags: [${tags.map(yamlString).join(", ")}]`] : []),
+      ...(summary ? [`summary: ${yamlString(String(summary))}`] : []),
+      "---",
+      "",
+    ].join("\n");
+    await writeFile(`${bundlePath}/index.md`, frontmatter + rewritten + "\n");
+
+    new Notice(
+      `Exported page bundle to ${bundlePath}/ (${countWords(output)} words, ${copied.size} attachment(s))`
+    );
+  }
+
+  // ── Pandoc export: YAML header, [@citekey] citations, CSL-JSON sidecar ──
+
+  async exportPandoc(project: Project, output: string, folder: string, title: string) {
+    const projectFile = this.app.vault.getAbstractFileByPath(project.filePath);
+    if (!(projectFile instanceof TFile)) return;
+
+    const content = await this.getFileContent(projectFile);
+    const lines = content.split("\n");
+    const pinned = this.parseSections(content, project).find((s) => s.pinned);
+    const pinnedLinks = pinned
+      ? parseWikilinks(lines.slice(pinned.startLine, pinned.endLine).join("\n"))
+      : [];
+
+    // Bibliography: cited sources, then the source queue, then the pinned list
+    const names: string[] = [];
+    const addName = (name: string) => {
+      if (name && !names.includes(name)) names.push(name);
+    };
+    for (const link of output.match(/\[\[([^\]|]+)\|\*]]/g) ?? []) {
+      addName(link.slice(2, link.indexOf("|")).trim());
+    }
+    for (const source of project.sources) {
+      addName(source.notePath.split("/").pop()!.replace(/\.md$/, ""));
+    }
+    for (const link of pinnedLinks) addName(link.split("/").pop()!);
+
+    const sources: CitationSource[] = [];
+    for (const name of names) {
+      sources.push(await this.loadCitationSource(project, name, pinnedLinks));
+    }
+
+    // Frontmatter citekeys are reserved first so generated keys can't take them
+    const taken = sources.map((src) => src.citekey).filter((key) => key);
+    const keys = new Map<string, string>();
+    const items: Record<string, unknown>[] = [];
+    const generated: string[] = [];
+    names.forEach((name, idx) => {
+      const src = sources[idx];
+      let key = src.citekey;
+      if (!key) {
+        key = uniqueCitekey(makeCitekey(src), taken);
+        taken.push(key);
+        generated.push(`${name} \u2192 @${key}`);
+      }
+      keys.set(name, key);
+      items.push(buildCslItem(src, key));
+    });
+
+    const body = output.replace(
+      /[ \t]*\[\[([^\]|]+)\|\*]]/g,
+      (_m, name: string) => ` [@${keys.get(name.trim())}]`
+    );
+
+    const targetPath = await this.resolveExportPath(title, "md", folder);
+    const bibPath = targetPath.replace(/\.md$/, ".json");
+    const author = this.app.metadataCache.getFileCache(projectFile)?.frontmatter?.author;
+    const header = [
+      "---",
+      `title: ${yamlString(title)}`,
+      ...(author ? [`author: ${yamlString(String(author))}`] : []),
+      `date: ${new Date().toISOString().slice(0, 10)}`,
+      `bibliography: ${yamlString(bibPath.split("/").pop()!)}`,
+      "---",
+      "",
+    ].join("\n");
+
+    const bibJson = JSON.stringify(items, null, 2) + "\n";
+    for (const [path, data] of [
+      [targetPath, header + body + "\n"],
+      [bibPath, bibJson],
+    ]) {
+      const existing = this.app.vault.getAbstractFileByPath(path);
+      if (existing instanceof TFile) {
+        await this.app.vault.modify(existing, data);
+      } else {
+        await this.app.vault.create(path, data);
+      }
+    }
+
+    new Notice(`Exported Pandoc markdown to ${targetPath} with ${items.length} references`);
+    if (generated.length > 0) {
+      new Notice(
+        `No citekey in frontmatter for ${generated.length} source(s), generated: ${generated.join(", ")}`,
+        10000
+      );
+    }
+  }
+
+  async untrackProject(projectId: string) {
+    const project = this.data.projects.find((p) => p.id === projectId);
+    if (project) project.archived = true;
+    if (this.data.activeProjectId === projectId) {
+      this.data.activeProjectId = this.activeProjects()[0]?.id ?? null;
+    }
+    await this.savePluginData();
+    this.updateProjectFileClass();
+    this.updateStatusBar();
+    this.refreshView();
+  }
+
+  async unarchiveProject(projectId: string) {
+    const project = this.data.projects.find((p) => p.id === projectId);
+    if (project) {
+      project.archived = false;
+      this.data.activeProjectId = project.id;
+      await this.savePluginData();
+      this.updateProjectFileClass();
+      this.updateStatusBar();
+      this.refreshView();
+    }
+  }
+
+  // ── Sample project ──
 
   async createSampleProject(): Promise<void> {
     const filePath = "Cairn — Getting Started.md";
@@ -1451,7 +3092,7 @@ From the source preview, you have four options:
         if (projectFile instanceof TFile) {
           const content = await this.getFileContent(projectFile);
           const lines = content.split("\n");
-          const allSections = this.parseSections(content);
+          const allSections = this.parseSections(content, project);
           const sourcesSection = allSections.find((s) => s.pinned);
 
           if (sourcesSection) {
@@ -1460,7 +3101,7 @@ From the source preview, you have four options:
               .join("\n");
             if (!sourcesBody.includes(`[[${safeName}]]`)) {
               lines.splice(sourcesSection.endLine, 0, `- [[${safeName}]]`);
-              await this.setFileContent(projectFile, lines.join("\n"));
+              await this.setFileContent(projectFile, lines.join("\n"), content);
             }
           } else {
             const pinnedName = this.data.settings.pinnedSectionName;
@@ -1469,7 +3110,7 @@ From the source preview, you have four options:
               `\n\n---\n\n## ${pinnedName}\n\n` +
               `- [[${safeName}]]` +
               "\n";
-            await this.setFileContent(projectFile, newContent);
+            await this.setFileContent(projectFile, newContent, content);
           }
         }
 
@@ -1483,13 +3124,13 @@ From the source preview, you have four options:
   async addSelectionToEssay(
     project: Project,
     selection: string,
-    sourceFile: TFile
+    sourceFile: TFile,
+    targetLine?: number
   ) {
     const projectFile = this.app.vault.getAbstractFileByPath(project.filePath);
     if (!(projectFile instanceof TFile)) return;
 
     const content = await this.getFileContent(projectFile);
-    const sections = this.parseSections(content);
 
     const trimmed = selection.trim();
     const sourceName = sourceFile.basename;
@@ -1500,37 +3141,10 @@ From the source preview, you have four options:
       .join("\n");
     const newBlock = `${blockquote}  [[${sourceName}|*]]\n`;
 
-    const sourcesSection = sections.find((s) => s.pinned);
-    const lines = content.split("\n");
-
-    let newContent: string;
-    if (sourcesSection) {
-      const beforeSources = lines
-        .slice(0, sourcesSection.startLine)
-        .join("\n");
-      const sourcesText = lines.slice(sourcesSection.startLine).join("\n");
-      const updatedSources = sourcesText.includes(`[[${sourceName}]]`)
-        ? sourcesText
-        : sourcesText.trimEnd() + `\n- [[${sourceName}]]`;
-      newContent =
-        beforeSources.trimEnd() +
-        "\n\n" +
-        newBlock +
-        "\n" +
-        updatedSources +
-        "\n";
-    } else {
-      const pinnedName = this.data.settings.pinnedSectionName;
-      newContent =
-        content.trimEnd() +
-        "\n\n" +
-        newBlock +
-        `\n\n---\n\n## ${pinnedName}\n\n` +
-        `- [[${sourceName}]]` +
-        "\n";
-    }
-
-    await this.setFileContent(projectFile, newContent);
+    const inserted = this.insertAttributedBlock(
+      project, content, newBlock, sourceName, targetLine ?? this.insertionTargetLine(project, content)
+    );
+    await this.setFileContent(projectFile, inserted.content, content);
     new Notice(`Added quote to ${project.name}`);
   }
 
@@ -1667,11 +3281,26 @@ From the source preview, you have four options:
     const saved = await this.loadData();
     this.data = Object.assign({}, DEFAULT_DATA, saved);
     this.data.settings = Object.assign({}, DEFAULT_SETTINGS, saved?.settings);
+    if (this.data.settings.exportProfiles.length === 0) {
+      this.data.settings.exportProfiles = migrateExportProfiles(saved?.settings ?? {});
+    }
+    const settings: NoteAssemblerSettings & Partial<LegacyExportSettings> = this.data.settings;
+    delete settings.exportIncludeHeadings;
+    delete settings.exportAttributions;
+    delete settings.citationStyle;
+    delete settings.exportFolder;
+    delete settings.docxNextToEssay;
+    for (const profile of this.data.settings.exportProfiles) {
+      if (profile.permalinkPattern === undefined) profile.permalinkPattern = "/{slug}/";
+    }
     // Ensure sources array exists on all projects (backwards compat)
     for (const project of this.data.projects) {
       if (!project.sources) {
         project.sources = [];
       }
+      // Targets used to be the bare heading line
+      const target: unknown = project.insertionTarget;
+      if (typeof target === "string") project.insertionTarget = { line: target, occurrence: 0 };
     }
   }
 
@@ -1686,11 +3315,43 @@ From the source preview, you have four options:
 
 // ── Sidebar View ────────────────────────────────────────────
 
+// What the keyboard can do to one outline card; missing actions are no-ops
+interface CardKeyActions {
+  moveUp?: () => Promise<void>;
+  moveDown?: () => Promise<void>;
+  open: () => void;
+  remove?: () => Promise<void>;
+  toggle?: () => void;
+}
+
+// Outline filter: text search, one block-type toggle and a source
+interface OutlineFilter {
+  text: string;
+  type: "all" | "quotes" | "prose" | "headings";
+  source: string; // "" = any source
+}
+
 class AssemblerView extends ItemView {
   plugin: NoteAssemblerPlugin;
   private draggedIndex: number | null = null;
   private draggedGroupIndices: number[] | null = null;
+  private draggedIsItem = false; // dragging a ### item: drops snap to item boundaries
+  private draggedSelection: number[] | null = null; // dragging the multi-block selection
+  private selectedBlocks: Set<string> = new Set(); // blockSelectionKeys of selected cards
+  private selectionAnchor: string | null = null; // last plain ctrl/cmd-click, for shift ranges
+  private outlineKeys: string[] = [];
+  private focusedKey: string | null = null; // outline card with keyboard focus
+  private focusCardEl: HTMLElement | null = null;
+  private outlineHadFocus = false; // restore focus to the outline on the next render
+  private cardKeys: WeakMap<HTMLElement, string> = new WeakMap();
+  private outlineFilter: OutlineFilter = { text: "", type: "all", source: "" };
+  private filterHadFocus = false;
   private collapsedHeadings: Set<string> = new Set();
+  private collapsedItems: Set<string> = new Set(); // "container\u0000item"
+  private outlineGroups: HeadingGroup[] = [];
+  private outlineBlockCount = 0;
+  private outlineTargetLine: number | undefined = undefined;
+  private outlineLines: string[] = [];
   previewSourceIndex: number | null = null;
   activeTab: "sources" | "outline" = "sources";
 
@@ -1719,6 +3380,10 @@ class AssemblerView extends ItemView {
 
   async renderContent() {
     const container = this.containerEl.children[1] as HTMLElement;
+    if (container.querySelector(".na-note-list")?.contains(document.activeElement)) {
+      this.outlineHadFocus = true;
+    }
+    this.filterHadFocus = container.querySelector(".na-filter-search") === document.activeElement;
     container.empty();
     container.addClass("note-assembler");
 
@@ -1862,6 +3527,13 @@ class AssemblerView extends ItemView {
       this.activeTab = "outline";
       this.renderContent();
     });
+    // Dragging a source over the tab opens the outline to drop onto a heading
+    outlineTab.addEventListener("dragenter", (e) => {
+      if (!e.dataTransfer?.types.includes(SOURCE_DRAG_TYPE)) return;
+      if (this.activeTab === "outline") return;
+      this.activeTab = "outline";
+      this.renderContent();
+    });
 
     // ── Active tab content ──
     if (this.activeTab === "sources") {
@@ -2028,6 +3700,15 @@ class AssemblerView extends ItemView {
             (source.status === "done" ? " na-source-done" : "") +
             (isPreviewed ? " na-source-active" : ""),
         });
+        card.setAttribute("draggable", "true");
+        card.addEventListener("dragstart", (e) => {
+          if (!e.dataTransfer) return;
+          e.dataTransfer.setData(
+            SOURCE_DRAG_TYPE,
+            JSON.stringify({ notePath: source.notePath })
+          );
+          e.dataTransfer.effectAllowed = "copy";
+        });
 
         // Status indicator (click to toggle done)
         const statusIcon = card.createSpan({ cls: "na-source-status" });
@@ -2119,6 +3800,17 @@ class AssemblerView extends ItemView {
 
         const capturedSource = source;
 
+        // Dragging selected preview text carries it as a quote
+        previewBody.addEventListener("dragstart", (e) => {
+          const sel = window.getSelection()?.toString()?.trim();
+          if (!sel || !e.dataTransfer) return;
+          e.dataTransfer.setData(
+            SOURCE_DRAG_TYPE,
+            JSON.stringify({ notePath: capturedSource.notePath, selection: sel })
+          );
+          e.dataTransfer.effectAllowed = "copy";
+        });
+
         // Action buttons
         const previewActions = previewContainer.createDiv({
           cls: "na-preview-actions",
@@ -2231,9 +3923,28 @@ class AssemblerView extends ItemView {
     // Section header
     const sectionHeader = section.createDiv({ cls: "na-section-header" });
     sectionHeader.createSpan({ cls: "na-section-label", text: "OUTLINE" });
+    const wordsEl = sectionHeader.createSpan({ cls: "na-outline-words" });
 
     this.addHeadingToggle(sectionHeader);
 
+    const arrangeBtn = sectionHeader.createEl("button", {
+      cls: "na-heading-toggle clickable-icon",
+      attr: { "aria-label": "Save or switch section arrangements" },
+    });
+    setIcon(arrangeBtn, "shuffle");
+    arrangeBtn.addEventListener("click", () => {
+      this.plugin.openArrangements(project);
+    });
+
+    const snapshotsBtn = sectionHeader.createEl("button", {
+      cls: "na-heading-toggle clickable-icon",
+      attr: { "aria-label": "Snapshots" },
+    });
+    setIcon(snapshotsBtn, "history");
+    snapshotsBtn.addEventListener("click", () => {
+      this.plugin.openSnapshots(project);
+    });
+
     // Action buttons (top)
     const actions = section.createDiv({ cls: "na-actions" });
 
@@ -2251,15 +3962,42 @@ class AssemblerView extends ItemView {
     });
     exportBtn.setAttribute(
       "title",
-      "Export final essay to clipboard (wikilinks and [[source|*]] stripped)"
+      "Export final essay with one of your export profiles"
     );
-    exportBtn.addEventListener("click", () => {
-      this.plugin.copyCleanExport(project);
+    exportBtn.addEventListener("click", (e) => {
+      const menu = new Menu();
+      for (const profile of this.plugin.data.settings.exportProfiles) {
+        menu.addItem((item) =>
+          item
+            .setTitle(profile.name)
+            .setIcon(EXPORT_FORMAT_ICONS[profile.format])
+            .onClick(() => this.plugin.runExportProfile(project, profile))
+        );
+      }
+      menu.addSeparator();
+      menu.addItem((item) =>
+        item
+          .setTitle("Export selected sections\u2026")
+          .setIcon("list-checks")
+          .onClick(() => this.plugin.openSectionExport(project, null))
+      );
+      for (const part of project.exportParts ?? []) {
+        menu.addItem((item) =>
+          item
+            .setTitle(`Part: ${part.name}\u2026`)
+            .setIcon("bookmark")
+            .onClick(() => this.plugin.openSectionExport(project, part))
+        );
+      }
+      menu.showAtMouseEvent(e);
     });
 
     // Read content and parse blocks
     const content = await this.plugin.getFileContent(projectFile);
-    const blocks = this.plugin.parseBlocks(content);
+    const blocks = this.plugin.parseBlocks(content, project);
+    this.outlineTargetLine = this.plugin.insertionTargetLine(project, content);
+    this.outlineLines = content.split("\n");
+    this.renderWordTotal(wordsEl, project, content);
 
     if (blocks.length === 0) {
       section.createDiv({
@@ -2267,11 +4005,23 @@ class AssemblerView extends ItemView {
         text: "No content yet. Add sources and pull content in, or add a blank section.",
       });
     } else {
+      // Selection is keyed by block text, so it outlives re-renders and moves
+      this.outlineKeys = blockSelectionKeys(this.outlineLines, blocks);
+      for (const key of Array.from(this.selectedBlocks)) {
+        if (!this.outlineKeys.includes(key)) this.selectedBlocks.delete(key);
+      }
+      if (this.selectedBlocks.size > 0) this.renderSelectionBar(section, project);
+
       const list = section.createDiv({ cls: "na-note-list" });
+      this.focusCardEl = null;
       const { orphans, groups } = this.plugin.groupBlocks(blocks);
+      this.outlineGroups = groups;
+      this.outlineBlockCount = blocks.length;
+      this.renderStatusProgress(section, actions, groups);
 
       // Render orphan blocks (before first heading)
       for (const idx of orphans) {
+        if (blocks[idx].type === "frontmatter") continue; // stays put at the top
         this.renderBlockCard(list, blocks[idx], idx, blocks, project, content);
       }
 
@@ -2285,18 +4035,29 @@ class AssemblerView extends ItemView {
           list, group, blocks, project, content, isCollapsed, allGroupIndices
         );
 
-        // Render children if expanded
+        // Render children if expanded: direct content, then ### items
         if (!isCollapsed) {
-          for (const childIdx of group.childIndices) {
+          for (const childIdx of group.directIndices) {
             this.renderBlockCard(
-              list, blocks[childIdx], childIdx, blocks, project, content, true
+              list, blocks[childIdx], childIdx, blocks, project, content, 1
             );
           }
+          for (const item of group.items) {
+            const itemKey = `${headingText}\u0000${item.heading.headingText}`;
+            const itemCollapsed = this.collapsedItems.has(itemKey);
+            this.renderItemCard(list, item, itemKey, itemCollapsed, blocks, project);
+            if (itemCollapsed) continue;
+            for (const childIdx of item.childIndices) {
+              this.renderBlockCard(
+                list, blocks[childIdx], childIdx, blocks, project, content, 2
+              );
+            }
+          }
         }
       }
 
       // Pinned sections (Sources)
-      const allSections = this.plugin.parseSections(content);
+      const allSections = this.plugin.parseSections(content, project);
       const pinned = allSections.filter((s) => s.pinned);
       for (const sec of pinned) {
         const card = list.createDiv({ cls: "na-note-card na-pinned" });
@@ -2310,12 +4071,25 @@ class AssemblerView extends ItemView {
         title.addEventListener("click", () => {
           this.scrollToSection(project, sec);
         });
+        this.addCardKeyboard(card, list, `pinned\u0000${sec.heading}`, sec.heading, {
+          open: () => this.scrollToSection(project, sec),
+        });
       }
+
+      this.renderOutlineFilter(section, list, blocks);
+
+      // One tab stop for the whole list; focus comes back after a re-render
+      const focusCard = this.focusCardEl ?? list.querySelector<HTMLElement>(".na-note-card");
+      if (focusCard) {
+        focusCard.setAttribute("tabindex", "0");
+        if (this.outlineHadFocus) focusCard.focus();
+      }
+      this.outlineHadFocus = false;
     }
 
     // ── Related Notes ──
     const relatedContent = await this.plugin.getFileContent(projectFile);
-    const allSects = this.plugin.parseSections(relatedContent);
+    const allSects = this.plugin.parseSections(relatedContent, project);
     const draggableSects = allSects.filter((s) => !s.pinned);
     const relatedLines = relatedContent.split("\n");
     const allWikilinks: string[] = [];
@@ -2381,22 +4155,40 @@ class AssemblerView extends ItemView {
     blocks: ContentBlock[],
     project: Project,
     content: string,
-    isChild: boolean = false,
+    depth: number = 0, // 1 = inside a ## section, 2 = inside a ### item
   ) {
-    const isHeading = blk.type === "heading";
+    const isHeading = blk.type === "heading" || blk.type === "subheading";
     const isBlockquote = blk.type === "blockquote";
 
-    let cardCls = isHeading
-      ? "na-note-card na-block-heading"
-      : isBlockquote
-        ? "na-note-card na-block-quote"
-        : "na-note-card na-block-prose";
-    if (isChild) cardCls += " na-group-child";
+    let cardCls = blk.type === "subheading"
+      ? "na-note-card na-block-subheading"
+      : isHeading
+        ? "na-note-card na-block-heading"
+        : isBlockquote
+          ? "na-note-card na-block-quote"
+          : blk.type in BLOCK_TYPE_ICONS
+            ? `na-note-card na-block-prose na-block-${blk.type}`
+            : "na-note-card na-block-prose";
+    if (depth > 0) cardCls += " na-group-child";
+    if (depth > 1) cardCls += " na-item-child";
+    const selectable = !isHeading;
+    if (selectable && this.selectedBlocks.has(this.outlineKeys[index])) cardCls += " na-selected";
 
     const card = list.createDiv({ cls: cardCls });
     card.setAttribute("draggable", "true");
     card.dataset.index = String(index);
 
+    // Ctrl/Cmd-click toggles a card in the selection, Shift-click extends it.
+    // Capture phase, so the title's jump-to-block click never fires.
+    if (selectable) {
+      card.addEventListener("click", (e) => {
+        if (!e.shiftKey && !e.ctrlKey && !e.metaKey) return;
+        e.preventDefault();
+        e.stopPropagation();
+        this.toggleSelection(index, blocks, e.shiftKey);
+      }, true);
+    }
+
     // Grip handle
     const grip = card.createSpan({ cls: "na-grip" });
     setIcon(grip, "grip-vertical");
@@ -2409,7 +4201,9 @@ class AssemblerView extends ItemView {
       });
       title.addEventListener("click", () => {
         this.scrollToBlock(project, blk);
+        this.plugin.setInsertionTarget(project, insertionTargetAt(this.outlineLines, blk.startLine));
       });
+      this.renderTargetMarker(card, project, blk);
     } else if (isBlockquote) {
       const previewEl = card.createSpan({ cls: "na-note-title na-block-quote-text" });
       previewEl.createSpan({ cls: "na-block-quote-icon", text: "\u201C" });
@@ -2424,10 +4218,14 @@ class AssemblerView extends ItemView {
         this.scrollToBlock(project, blk);
       });
     } else {
-      const title = card.createSpan({
-        cls: "na-note-title na-block-prose-text",
-        text: blk.preview,
-      });
+      const title = card.createSpan({ cls: "na-note-title na-block-prose-text" });
+      const typeIcon = BLOCK_TYPE_ICONS[blk.type];
+      if (typeIcon) {
+        const iconEl = title.createSpan({ cls: "na-block-type-icon" });
+        setIcon(iconEl, typeIcon);
+        iconEl.setAttribute("title", blk.type);
+      }
+      title.appendText(blk.preview);
       title.addEventListener("click", () => {
         this.scrollToBlock(project, blk);
       });
@@ -2438,10 +4236,18 @@ class AssemblerView extends ItemView {
     const upBtn = moveGroup.createSpan({ cls: "na-move" });
     setIcon(upBtn, "chevron-up");
     upBtn.setAttribute("title", "Move up");
-    if (index === 0) upBtn.addClass("na-move-disabled");
+    if (index === 0 || blocks[index - 1].type === "frontmatter") {
+      upBtn.addClass("na-move-disabled");
+    }
+    const moveUp = async () => {
+      if (index > 0) await this.plugin.moveBlock(project, index, index - 1);
+    };
+    const moveDown = async () => {
+      if (index < blocks.length - 1) await this.plugin.moveBlock(project, index, index + 1);
+    };
     upBtn.addEventListener("click", async (e) => {
       e.stopPropagation();
-      if (index > 0) await this.plugin.moveBlock(project, index, index - 1);
+      await moveUp();
     });
     const downBtn = moveGroup.createSpan({ cls: "na-move" });
     setIcon(downBtn, "chevron-down");
@@ -2449,17 +4255,17 @@ class AssemblerView extends ItemView {
     if (index === blocks.length - 1) downBtn.addClass("na-move-disabled");
     downBtn.addEventListener("click", async (e) => {
       e.stopPropagation();
-      if (index < blocks.length - 1) await this.plugin.moveBlock(project, index, index + 1);
+      await moveDown();
     });
 
-    // Extract button — heading blocks only
-    if (isHeading) {
+    // Extract button — ## heading blocks only
+    if (blk.type === "heading") {
       const extractBtn = card.createSpan({ cls: "na-extract" });
       setIcon(extractBtn, "arrow-up-right");
       extractBtn.setAttribute("title", "Extract section to standalone note");
       extractBtn.addEventListener("click", async (e) => {
         e.stopPropagation();
-        const allSections = this.plugin.parseSections(content);
+        const allSections = this.plugin.parseSections(content, project);
         const draggable = allSections.filter((s) => !s.pinned);
         const sectionIdx = draggable.findIndex((s) => s.startLine === blk.startLine);
         if (sectionIdx >= 0) {
@@ -2476,10 +4282,26 @@ class AssemblerView extends ItemView {
       await this.plugin.removeBlock(project, index);
     });
 
-    // ── Drag events ──
+    this.addCardKeyboard(card, list, this.outlineKeys[index], blk.headingText || blk.preview, {
+      moveUp,
+      moveDown,
+      open: () => this.scrollToBlock(project, blk),
+      remove: () => this.plugin.removeBlock(project, index),
+    });
+
+    // ── Drag events (a selected card carries the whole selection) ──
     card.addEventListener("dragstart", (e) => {
-      this.draggedIndex = index;
+      const selection = this.selectedIndices();
+      if (selection.length > 1 && selection.includes(index)) {
+        this.draggedSelection = selection;
+        this.draggedIndex = null;
+        list.querySelectorAll(".na-selected").forEach((el) => el.addClass("na-dragging"));
+      } else {
+        this.draggedSelection = null;
+        this.draggedIndex = index;
+      }
       this.draggedGroupIndices = null;
+      this.draggedIsItem = false;
       card.addClass("na-dragging");
       if (e.dataTransfer) {
         e.dataTransfer.effectAllowed = "move";
@@ -2489,7 +4311,8 @@ class AssemblerView extends ItemView {
     card.addEventListener("dragend", () => {
       this.draggedIndex = null;
       this.draggedGroupIndices = null;
-      card.removeClass("na-dragging");
+      this.draggedSelection = null;
+      list.querySelectorAll(".na-dragging").forEach((el) => el.removeClass("na-dragging"));
       list.querySelectorAll(".na-drop-above, .na-drop-below").forEach((el) => {
         el.removeClass("na-drop-above");
         el.removeClass("na-drop-below");
@@ -2524,27 +4347,84 @@ class AssemblerView extends ItemView {
     // Collapse chevron
     const chevron = card.createSpan({ cls: "na-collapse-chevron clickable-icon" });
     setIcon(chevron, isCollapsed ? "chevron-right" : "chevron-down");
-    chevron.addEventListener("click", (e) => {
-      e.stopPropagation();
+    const toggle = () => {
       if (this.collapsedHeadings.has(headingText)) {
         this.collapsedHeadings.delete(headingText);
       } else {
         this.collapsedHeadings.add(headingText);
       }
       this.renderContent();
+    };
+    chevron.addEventListener("click", (e) => {
+      e.stopPropagation();
+      toggle();
     });
 
     // Grip handle
     const grip = card.createSpan({ cls: "na-grip" });
     setIcon(grip, "grip-vertical");
 
-    // Heading text
+    // Heading text (click to jump there and make it the insertion target)
     const title = card.createSpan({
       cls: "na-note-title na-block-heading-text",
       text: headingText,
     });
     title.addEventListener("click", () => {
       this.scrollToBlock(project, blk);
+      this.plugin.setInsertionTarget(project, insertionTargetAt(this.outlineLines, blk.startLine));
+    });
+    this.renderSynopsis(title, project, blk);
+    this.renderTargetMarker(card, project, blk);
+
+    // Status badge (click to change)
+    const statusBadge = card.createSpan({
+      cls: `na-status-badge na-status-${blk.status ?? "none"}`,
+      text: blk.status ?? "status",
+    });
+    statusBadge.setAttribute("title", "Set section status");
+    statusBadge.addEventListener("click", (e) => {
+      e.stopPropagation();
+      const menu = new Menu();
+      for (const status of SECTION_STATUSES) {
+        menu.addItem((item) =>
+          item
+            .setTitle(status.charAt(0).toUpperCase() + status.slice(1))
+            .setChecked(blk.status === status)
+            .onClick(() => this.plugin.setSectionStatus(project, blk.startLine, headingText, status))
+        );
+      }
+      if (blk.status) {
+        menu.addSeparator();
+        menu.addItem((item) =>
+          item
+            .setTitle("Clear status")
+            .setIcon("x")
+            .onClick(() => this.plugin.setSectionStatus(project, blk.startLine, headingText, undefined))
+        );
+      }
+      menu.showAtMouseEvent(e);
+    });
+
+    // Word count: your words against the section target (quotes excluded)
+    const words: WordCount = { own: 0, quoted: 0 };
+    for (const i of group.childIndices) addBlockWords(words, this.outlineLines, blocks[i]);
+    const target = blk.target;
+    const wordEl = card.createSpan({
+      cls: "na-word-count" + (target && words.own >= target ? " na-word-count-met" : ""),
+      text: formatWordProgress(words.own, target),
+    });
+    if (target) wordEl.style.setProperty("--na-progress", `${Math.min(100, (words.own / target) * 100)}%`);
+    wordEl.setAttribute(
+      "title",
+      `${words.own} words of your own, ${words.quoted} quoted` +
+        (target ? ` \u2014 target ${target}` : "") +
+        "\nClick to set a word target"
+    );
+    wordEl.addEventListener("click", (e) => {
+      e.stopPropagation();
+      new WordTargetModal(this.app, headingText, target, (value) => {
+        this.plugin.setSectionTarget(project, blk.startLine, headingText, value);
+      }).open();
     });
 
     // Count badge when collapsed
@@ -2561,8 +4441,8 @@ class AssemblerView extends ItemView {
     setIcon(upBtn, "chevron-up");
     upBtn.setAttribute("title", isCollapsed ? "Move group up" : "Move up");
     if (index === 0) upBtn.addClass("na-move-disabled");
-    upBtn.addEventListener("click", async (e) => {
-      e.stopPropagation();
+    const lastIdx = allGroupIndices[allGroupIndices.length - 1];
+    const moveUp = async () => {
       if (index === 0) return;
       if (isCollapsed && allGroupIndices.length > 1) {
         // Move entire group: target is the block index before the heading
@@ -2570,14 +4450,8 @@ class AssemblerView extends ItemView {
       } else {
         await this.plugin.moveBlock(project, index, index - 1);
       }
-    });
-    const downBtn = moveGroupEl.createSpan({ cls: "na-move" });
-    setIcon(downBtn, "chevron-down");
-    downBtn.setAttribute("title", isCollapsed ? "Move group down" : "Move down");
-    const lastIdx = allGroupIndices[allGroupIndices.length - 1];
-    if (lastIdx === blocks.length - 1) downBtn.addClass("na-move-disabled");
-    downBtn.addEventListener("click", async (e) => {
-      e.stopPropagation();
+    };
+    const moveDown = async () => {
       if (lastIdx >= blocks.length - 1) return;
       if (isCollapsed && allGroupIndices.length > 1) {
         // Move entire group down: target is block after the last child
@@ -2587,6 +4461,63 @@ class AssemblerView extends ItemView {
           await this.plugin.moveBlock(project, index, index + 1);
         }
       }
+    };
+    upBtn.addEventListener("click", async (e) => {
+      e.stopPropagation();
+      await moveUp();
+    });
+    const downBtn = moveGroupEl.createSpan({ cls: "na-move" });
+    setIcon(downBtn, "chevron-down");
+    downBtn.setAttribute("title", isCollapsed ? "Move group down" : "Move down");
+    if (lastIdx === blocks.length - 1) downBtn.addClass("na-move-disabled");
+    downBtn.addEventListener("click", async (e) => {
+      e.stopPropagation();
+      await moveDown();
+    });
+
+    // Split / merge buttons
+    const draggableSections = this.plugin.parseSections(content, project).filter((s) => !s.pinned);
+    const sectionIdx = draggableSections.findIndex((s) => s.startLine === blk.startLine);
+
+    const splitBtn = card.createSpan({ cls: "na-extract" });
+    setIcon(splitBtn, "scissors");
+    splitBtn.setAttribute("title", "Split section");
+    splitBtn.addEventListener("click", (e) => {
+      e.stopPropagation();
+      const menu = new Menu();
+      const cursorLine = this.plugin.cursorSectionLine(project, content) === blk.startLine
+        ? this.editorCursorLine(project)
+        : null;
+      menu.addItem((item) =>
+        item
+          .setTitle("At editor cursor")
+          .setIcon("text-cursor")
+          .setDisabled(cursorLine === null || cursorLine <= blk.startLine)
+          .onClick(() => {
+            if (cursorLine !== null) this.plugin.promptSplitSection(project, cursorLine);
+          })
+      );
+      if (group.children.length > 1) menu.addSeparator();
+      for (const child of group.children.slice(1)) {
+        menu.addItem((item) =>
+          item
+            .setTitle(`Before \u201C${truncate(child.preview, 40)}\u201D`)
+            .onClick(() => this.plugin.promptSplitSection(project, child.startLine))
+        );
+      }
+      menu.showAtMouseEvent(e);
+    });
+
+    const mergeBtn = card.createSpan({ cls: "na-extract" });
+    setIcon(mergeBtn, "merge");
+    mergeBtn.setAttribute("title", "Merge with the section below");
+    if (sectionIdx < 0 || sectionIdx + 1 >= draggableSections.length) {
+      mergeBtn.addClass("na-move-disabled");
+    }
+    mergeBtn.addEventListener("click", async (e) => {
+      e.stopPropagation();
+      if (sectionIdx < 0 || sectionIdx + 1 >= draggableSections.length) return;
+      await this.plugin.mergeSectionWithNext(project, sectionIdx);
     });
 
     // Extract button
@@ -2595,9 +4526,6 @@ class AssemblerView extends ItemView {
     extractBtn.setAttribute("title", "Extract section to standalone note");
     extractBtn.addEventListener("click", async (e) => {
       e.stopPropagation();
-      const allSections = this.plugin.parseSections(content);
-      const draggable = allSections.filter((s) => !s.pinned);
-      const sectionIdx = draggable.findIndex((s) => s.startLine === blk.startLine);
       if (sectionIdx >= 0) {
         await this.plugin.extractSection(project, sectionIdx);
       }
@@ -2611,6 +4539,14 @@ class AssemblerView extends ItemView {
       await this.plugin.removeBlock(project, index);
     });
 
+    this.addCardKeyboard(card, list, this.outlineKeys[index], headingText, {
+      moveUp,
+      moveDown,
+      open: () => this.scrollToBlock(project, blk),
+      remove: () => this.plugin.removeBlock(project, index),
+      toggle,
+    });
+
     // ── Drag events (group-aware when collapsed) ──
     card.addEventListener("dragstart", (e) => {
       if (isCollapsed) {
@@ -2620,6 +4556,261 @@ class AssemblerView extends ItemView {
         this.draggedIndex = index;
         this.draggedGroupIndices = null;
       }
+      this.draggedIsItem = false;
+      this.draggedSelection = null;
+      card.addClass("na-dragging");
+      if (e.dataTransfer) {
+        e.dataTransfer.effectAllowed = "move";
+      }
+    });
+
+    card.addEventListener("dragend", () => {
+      this.draggedIndex = null;
+      this.draggedGroupIndices = null;
+      this.draggedSelection = null;
+      list.querySelectorAll(".na-dragging").forEach((el) => el.removeClass("na-dragging"));
+      list.querySelectorAll(".na-drop-above, .na-drop-below").forEach((el) => {
+        el.removeClass("na-drop-above");
+        el.removeClass("na-drop-below");
+      });
+    });
+
+    this.addDropHandlers(card, list, index, blocks, project);
+  }
+
+  // ── Essay word total in the Outline header (click to set the target) ──
+
+  private renderWordTotal(el: HTMLElement, project: Project, content: string) {
+    const { own, quoted } = this.plugin.essayWordCount(project, content);
+    const target = project.wordTarget;
+    el.setText(`${formatWordProgress(own, target)} words`);
+    el.toggleClass("na-word-count-met", !!target && own >= target);
+    el.setAttribute(
+      "title",
+      `${own} words of your own, ${quoted} quoted` +
+        (target ? ` \u2014 target ${target}` : "") +
+        "\nClick to set a word target for the essay"
+    );
+    el.addEventListener("click", () => {
+      new WordTargetModal(this.app, project.name, target, (value) => {
+        this.plugin.setWordTarget(project, value);
+      }).open();
+    });
+  }
+
+  // ── Overall progress: one bar segment per status, shown once any is set ──
+
+  private renderStatusProgress(section: HTMLElement, before: HTMLElement, groups: HeadingGroup[]) {
+    if (groups.length === 0 || !groups.some((g) => g.heading.status)) return;
+    const progress = section.createDiv({ cls: "na-status-progress" });
+    section.insertBefore(progress, before);
+
+    const bar = progress.createDiv({ cls: "na-status-bar" });
+    for (const status of SECTION_STATUSES) {
+      const count = groups.filter((g) => g.heading.status === status).length;
+      if (count === 0) continue;
+      const segment = bar.createDiv({ cls: `na-status-segment na-status-${status}` });
+      segment.style.width = `${(count / groups.length) * 100}%`;
+      segment.setAttribute("title", `${count} ${status}`);
+    }
+    const done = groups.filter((g) => g.heading.status === "done").length;
+    progress.createSpan({
+      cls: "na-status-label",
+      text: `${done}/${groups.length} done`,
+    });
+  }
+
+  // ── Synopsis under a section heading: click to edit in place ──
+
+  private renderSynopsis(title: HTMLElement, project: Project, blk: ContentBlock) {
+    const el = title.createDiv({
+      cls: "na-synopsis" + (blk.synopsis ? "" : " na-synopsis-empty"),
+      text: blk.synopsis ?? "Add synopsis\u2026",
+    });
+    el.setAttribute("title", "What this section is for \u2014 click to edit");
+    el.addEventListener("click", (e) => {
+      e.stopPropagation();
+      const input = createEl("input", {
+        type: "text",
+        cls: "na-synopsis-input",
+        placeholder: "What is this section for?",
+      });
+      input.value = blk.synopsis ?? "";
+      el.replaceWith(input);
+      input.focus();
+
+      let done = false;
+      const finish = (save: boolean) => {
+        if (done) return;
+        done = true;
+        if (save && input.value.trim() !== (blk.synopsis ?? "")) {
+          this.plugin.setSectionSynopsis(project, blk.startLine, blk.headingText ?? "", input.value);
+        } else {
+          input.replaceWith(el);
+        }
+      };
+      input.addEventListener("click", (ev) => ev.stopPropagation());
+      input.addEventListener("keydown", (ev) => {
+        ev.stopPropagation();
+        if (ev.key === "Enter") finish(true);
+        else if (ev.key === "Escape") finish(false);
+      });
+      input.addEventListener("blur", () => finish(true));
+    });
+  }
+
+  private editorCursorLine(project: Project): number | null {
+    for (const leaf of this.app.workspace.getLeavesOfType("markdown")) {
+      const view = leaf.view as any;
+      if (view?.file?.path === project.filePath && view?.editor) {
+        return view.editor.getCursor().line;
+      }
+    }
+    return null;
+  }
+
+  // ── Insertion-target marker on the heading new content goes under ──
+
+  private renderTargetMarker(card: HTMLElement, project: Project, blk: ContentBlock) {
+    if (blk.startLine !== this.outlineTargetLine) return;
+    card.addClass("na-insert-target");
+    const marker = card.createSpan({ cls: "na-target-marker clickable-icon" });
+    setIcon(marker, "crosshair");
+    if (project.insertionTarget) {
+      marker.setAttribute("title", "New content goes here \u2014 click to clear");
+      marker.addEventListener("click", (e) => {
+        e.stopPropagation();
+        this.plugin.setInsertionTarget(project, undefined);
+      });
+    } else {
+      marker.setAttribute("title", "New content goes here (following the cursor)");
+    }
+  }
+
+  // ── Render a ### item card (always drags with its content) ──
+
+  private renderItemCard(
+    list: HTMLElement,
+    item: ItemGroup,
+    itemKey: string,
+    isCollapsed: boolean,
+    blocks: ContentBlock[],
+    project: Project,
+  ) {
+    const blk = item.heading;
+    const index = item.headingIndex;
+    const itemIndices = [index, ...item.childIndices];
+
+    let cardCls = "na-note-card na-block-subheading na-group-child";
+    if (isCollapsed) cardCls += " na-group-collapsed";
+
+    const card = list.createDiv({ cls: cardCls });
+    card.setAttribute("draggable", "true");
+    card.dataset.index = String(index);
+
+    const chevron = card.createSpan({ cls: "na-collapse-chevron clickable-icon" });
+    setIcon(chevron, isCollapsed ? "chevron-right" : "chevron-down");
+    const toggle = () => {
+      if (this.collapsedItems.has(itemKey)) {
+        this.collapsedItems.delete(itemKey);
+      } else {
+        this.collapsedItems.add(itemKey);
+      }
+      this.renderContent();
+    };
+    chevron.addEventListener("click", (e) => {
+      e.stopPropagation();
+      toggle();
+    });
+
+    const grip = card.createSpan({ cls: "na-grip" });
+    setIcon(grip, "grip-vertical");
+
+    const title = card.createSpan({
+      cls: "na-note-title na-block-subheading-text",
+      text: blk.headingText || "",
+    });
+    title.addEventListener("click", () => {
+      this.scrollToBlock(project, blk);
+      this.plugin.setInsertionTarget(project, insertionTargetAt(this.outlineLines, blk.startLine));
+    });
+    this.renderTargetMarker(card, project, blk);
+
+    if (isCollapsed && item.children.length > 0) {
+      card.createSpan({ cls: "na-group-count", text: String(item.children.length) });
+    }
+
+    // Move buttons — step past the neighbouring item, crossing into the
+    // previous/next section at either end
+    const groups = this.outlineGroups;
+    const gi = groups.findIndex((g) => g.items.includes(item));
+    const group = groups[gi];
+    const pos = group ? group.items.indexOf(item) : -1;
+    let upTarget: number | null = null;
+    let downTarget: number | null = null;
+    if (group) {
+      const prev = group.items[pos - 1];
+      const next = group.items[pos + 1];
+      if (prev) upTarget = prev.headingIndex;
+      else if (gi > 0) upTarget = group.headingIndex;
+      if (next) {
+        downTarget = (next.childIndices[next.childIndices.length - 1] ?? next.headingIndex) + 1;
+      } else if (groups[gi + 1]) {
+        downTarget =
+          groups[gi + 1].items[0]?.headingIndex ??
+          groups[gi + 2]?.headingIndex ??
+          blocks.length;
+      }
+    }
+
+    const moveGroupEl = card.createSpan({ cls: "na-move-group" });
+    const upBtn = moveGroupEl.createSpan({ cls: "na-move" });
+    setIcon(upBtn, "chevron-up");
+    upBtn.setAttribute("title", "Move item up");
+    if (upTarget === null) upBtn.addClass("na-move-disabled");
+    const moveUp = async () => {
+      if (upTarget === null) return;
+      await this.plugin.moveBlockGroup(project, itemIndices, upTarget);
+    };
+    const moveDown = async () => {
+      if (downTarget === null) return;
+      await this.plugin.moveBlocks(project, itemIndices, downTarget);
+    };
+    upBtn.addEventListener("click", async (e) => {
+      e.stopPropagation();
+      await moveUp();
+    });
+    const downBtn = moveGroupEl.createSpan({ cls: "na-move" });
+    setIcon(downBtn, "chevron-down");
+    downBtn.setAttribute("title", "Move item down");
+    if (downTarget === null) downBtn.addClass("na-move-disabled");
+    downBtn.addEventListener("click", async (e) => {
+      e.stopPropagation();
+      await moveDown();
+    });
+
+    const removeBtn = card.createSpan({ cls: "na-remove" });
+    setIcon(removeBtn, "x");
+    removeBtn.setAttribute("title", "Remove heading (content stays)");
+    removeBtn.addEventListener("click", async (e) => {
+      e.stopPropagation();
+      await this.plugin.removeBlock(project, index);
+    });
+
+    this.addCardKeyboard(card, list, this.outlineKeys[index], blk.headingText || "", {
+      moveUp,
+      moveDown,
+      open: () => this.scrollToBlock(project, blk),
+      remove: () => this.plugin.removeBlock(project, index),
+      toggle,
+    });
+
+    // ── Drag events ──
+    card.addEventListener("dragstart", (e) => {
+      this.draggedGroupIndices = itemIndices;
+      this.draggedIndex = null;
+      this.draggedIsItem = true;
+      this.draggedSelection = null;
       card.addClass("na-dragging");
       if (e.dataTransfer) {
         e.dataTransfer.effectAllowed = "move";
@@ -2629,6 +4820,8 @@ class AssemblerView extends ItemView {
     card.addEventListener("dragend", () => {
       this.draggedIndex = null;
       this.draggedGroupIndices = null;
+      this.draggedIsItem = false;
+      this.draggedSelection = null;
       card.removeClass("na-dragging");
       list.querySelectorAll(".na-drop-above, .na-drop-below").forEach((el) => {
         el.removeClass("na-drop-above");
@@ -2648,13 +4841,26 @@ class AssemblerView extends ItemView {
     blocks: ContentBlock[],
     project: Project,
   ) {
+    // Sources dropped on a heading land at the end of its section or item
+    const blk = blocks[index];
+    const acceptsSource = blk.type === "heading" || blk.type === "subheading";
+
     card.addEventListener("dragover", (e) => {
+      if (e.dataTransfer?.types.includes(SOURCE_DRAG_TYPE)) {
+        if (!acceptsSource) return;
+        e.preventDefault();
+        e.dataTransfer.dropEffect = "copy";
+        card.addClass("na-drop-into");
+        return;
+      }
       e.preventDefault();
       const isDraggingSingle = this.draggedIndex !== null;
       const isDraggingGroup = this.draggedGroupIndices !== null;
-      if (!isDraggingSingle && !isDraggingGroup) return;
+      const isDraggingSelection = this.draggedSelection !== null;
+      if (!isDraggingSingle && !isDraggingGroup && !isDraggingSelection) return;
       if (isDraggingSingle && this.draggedIndex === index) return;
       if (isDraggingGroup && this.draggedGroupIndices!.includes(index)) return;
+      if (isDraggingSelection && this.draggedSelection!.includes(index)) return;
       if (e.dataTransfer) e.dataTransfer.dropEffect = "move";
       const rect = card.getBoundingClientRect();
       const midY = rect.top + rect.height / 2;
@@ -2672,21 +4878,48 @@ class AssemblerView extends ItemView {
     card.addEventListener("dragleave", () => {
       card.removeClass("na-drop-above");
       card.removeClass("na-drop-below");
+      card.removeClass("na-drop-into");
     });
 
     card.addEventListener("drop", async (e) => {
       e.preventDefault();
+      const payload = e.dataTransfer?.getData(SOURCE_DRAG_TYPE);
+      if (payload) {
+        card.removeClass("na-drop-into");
+        if (!acceptsSource) return;
+        const { notePath, selection } = JSON.parse(payload);
+        await this.plugin.insertSourceAtHeading(project, notePath, selection, blk.startLine);
+        return;
+      }
       const rect = card.getBoundingClientRect();
       const midY = rect.top + rect.height / 2;
       const insertBefore = e.clientY < midY;
 
-      if (this.draggedGroupIndices !== null) {
+      if (this.draggedSelection !== null) {
+        // Multi-block drop: target is an index in the current (pre-move) list
+        const fromIndices = this.draggedSelection;
+        this.draggedSelection = null;
+        if (fromIndices.includes(index)) return;
+        await this.plugin.moveBlocks(project, fromIndices, insertBefore ? index : index + 1);
+      } else if (this.draggedGroupIndices !== null && this.draggedIsItem) {
+        // ### item drop: lands on an item boundary, never splitting another item
+        const fromIndices = this.draggedGroupIndices;
+        if (fromIndices.includes(index)) return;
+        const first = fromIndices[0];
+        const last = fromIndices[fromIndices.length - 1];
+        const target = this.itemInsertIndex(index, insertBefore);
+        this.draggedGroupIndices = null;
+        this.draggedIsItem = false;
+        if (target >= first && target <= last + 1) return;
+        // target is a pre-move index, which is what moveBlocks expects
+        await this.plugin.moveBlocks(project, fromIndices, target);
+      } else if (this.draggedGroupIndices !== null) {
         // Group drop
         const fromIndices = this.draggedGroupIndices;
         if (fromIndices.includes(index)) return;
         let toIdx = index;
         const firstFrom = fromIndices[0];
-        if (firstFrom < index) toIdx -= fromIndices.length - 1;
+        if (firstFrom < index) toIdx -= fromIndices.length;
         if (!insertBefore) toIdx++;
         this.draggedGroupIndices = null;
         this.draggedIndex = null;
@@ -2705,62 +4938,354 @@ class AssemblerView extends ItemView {
     });
   }
 
-  private scrollToSection(project: Project, section: Section) {
-    const leaves = this.app.workspace.getLeavesOfType("markdown");
-    for (const leaf of leaves) {
-      const view = leaf.view as any;
-      if (view?.file?.path === project.filePath && view?.editor) {
-        view.editor.setCursor({ line: section.startLine, ch: 0 });
-        view.editor.scrollIntoView(
-          {
-            from: { line: section.startLine, ch: 0 },
-            to: {
-              line: Math.min(section.startLine + 5, section.endLine),
-              ch: 0,
-            },
-          },
-          true
+  // ── Keyboard: arrows move focus, Alt+arrows reorder, Enter jumps to the
+  // block, Delete removes it (after confirming), Space folds a heading ──
+
+  private addCardKeyboard(
+    card: HTMLElement,
+    list: HTMLElement,
+    key: string,
+    label: string,
+    actions: CardKeyActions,
+  ) {
+    card.setAttribute("tabindex", "-1");
+    this.cardKeys.set(card, key);
+    if (key === this.focusedKey) this.focusCardEl = card;
+
+    card.addEventListener("focus", () => {
+      this.focusedKey = key;
+    });
+
+    card.addEventListener("keydown", async (e) => {
+      if (e.target !== card) return;
+      const cards = Array.from(
+        list.querySelectorAll<HTMLElement>(".na-note-card:not(.na-filtered-out)")
+      );
+      const pos = cards.indexOf(card);
+
+      if (e.key === "ArrowUp" || e.key === "ArrowDown") {
+        e.preventDefault();
+        const up = e.key === "ArrowUp";
+        if (e.altKey) {
+          const move = up ? actions.moveUp : actions.moveDown;
+          if (move) await move();
+          return;
+        }
+        const next = cards[pos + (up ? -1 : 1)];
+        if (!next) return;
+        card.setAttribute("tabindex", "-1");
+        next.setAttribute("tabindex", "0");
+        next.focus();
+      } else if (e.key === "Enter") {
+        e.preventDefault();
+        actions.open();
+      } else if (e.key === "Delete" && actions.remove) {
+        e.preventDefault();
+        const remove = actions.remove;
+        const ok = await confirmModal(
+          this.app,
+          "Remove block",
+          `Remove \u201C${truncate(label, 60)}\u201D from the essay?`,
+          "Remove"
         );
-        this.app.workspace.revealLeaf(leaf);
-        break;
+        if (!ok) return;
+        // Keep focus in the list: on the card below, or above at the end
+        const neighbour = cards[pos + 1] ?? cards[pos - 1];
+        this.focusedKey = neighbour ? this.cardKeys.get(neighbour) ?? null : null;
+        this.outlineHadFocus = true;
+        await remove();
+      } else if (e.key === " " && actions.toggle) {
+        e.preventDefault();
+        actions.toggle();
       }
-    }
+    });
   }
 
-  private scrollToBlock(project: Project, block: ContentBlock) {
-    const leaves = this.app.workspace.getLeavesOfType("markdown");
-    for (const leaf of leaves) {
-      const view = leaf.view as any;
-      if (view?.file?.path === project.filePath && view?.editor) {
-        view.editor.setCursor({ line: block.startLine, ch: 0 });
-        view.editor.scrollIntoView(
-          {
-            from: { line: block.startLine, ch: 0 },
-            to: {
-              line: Math.min(block.startLine + 3, block.endLine),
-              ch: 0,
-            },
-          },
-          true
-        );
-        this.app.workspace.revealLeaf(leaf);
-        break;
-      }
+  // ── Outline filter row (sits above the list; cards are filtered in place,
+  // so drag and drop still works against the full block list) ──
+
+  private renderOutlineFilter(section: HTMLElement, list: HTMLElement, blocks: ContentBlock[]) {
+    const filter = this.outlineFilter;
+    const row = section.createDiv({ cls: "na-outline-filter" });
+    section.insertBefore(row, section.querySelector(".na-selection-bar") ?? list);
+
+    const searchRow = row.createDiv({ cls: "na-filter-search-row" });
+    const search = searchRow.createEl("input", {
+      type: "search",
+      cls: "na-filter-search",
+      placeholder: "Filter blocks\u2026",
+    });
+    search.value = filter.text;
+    if (this.filterHadFocus) {
+      // Re-rendered mid-typing: keep the caret in the search box
+      search.focus();
+      search.setSelectionRange(search.value.length, search.value.length);
     }
-  }
-}
+    const count = searchRow.createSpan({ cls: "na-filter-count" });
 
-// ── Source Suggest Modal (for Add Source) ────────────────────
+    const apply = () => {
+      const { shown, total } = this.applyOutlineFilter(list, blocks);
+      const active = filter.text.trim() !== "" || filter.type !== "all" || filter.source !== "";
+      count.setText(active ? `${shown}/${total}` : "");
+    };
 
-class SourceSuggestModal extends FuzzySuggestModal<TFile> {
-  project: Project;
-  existingPaths: Set<string>;
-  onChoose: (file: TFile) => void;
-  private activeFolder: string;
-  private plugin: NoteAssemblerPlugin;
+    search.addEventListener("input", () => {
+      filter.text = search.value;
+      apply();
+    });
 
-  constructor(
-    app: App,
+    const optionsRow = row.createDiv({ cls: "na-filter-options" });
+    const types: [OutlineFilter["type"], string][] = [
+      ["quotes", "Quotes"],
+      ["prose", "My prose"],
+      ["headings", "Headings"],
+    ];
+    for (const [type, label] of types) {
+      const btn = optionsRow.createEl("button", {
+        cls: "na-filter-type" + (filter.type === type ? " na-filter-type-active" : ""),
+        text: label,
+      });
+      btn.addEventListener("click", () => {
+        filter.type = filter.type === type ? "all" : type;
+        optionsRow.querySelectorAll(".na-filter-type").forEach((el) => {
+          el.removeClass("na-filter-type-active");
+        });
+        if (filter.type === type) btn.addClass("na-filter-type-active");
+        apply();
+      });
+    }
+
+    const sources: string[] = [];
+    for (const blk of blocks) {
+      if (blk.source && !sources.includes(blk.source)) sources.push(blk.source);
+    }
+    sources.sort((a, b) => a.localeCompare(b));
+    if (!sources.includes(filter.source)) filter.source = "";
+    if (sources.length > 0) {
+      const sourceSelect = optionsRow.createEl("select", { cls: "na-filter-source" });
+      sourceSelect.createEl("option", { text: "Any source", value: "" });
+      for (const name of sources) {
+        const opt = sourceSelect.createEl("option", { text: name, value: name });
+        if (name === filter.source) opt.selected = true;
+      }
+      sourceSelect.addEventListener("change", () => {
+        filter.source = sourceSelect.value;
+        apply();
+      });
+    }
+
+    apply();
+  }
+
+  private applyOutlineFilter(
+    list: HTMLElement,
+    blocks: ContentBlock[]
+  ): { shown: number; total: number } {
+    const { type, source } = this.outlineFilter;
+    const query = this.outlineFilter.text.trim().toLowerCase();
+    const matches = blocks.map((blk) => {
+      const isHeading = blk.type === "heading" || blk.type === "subheading";
+      if (type === "quotes" && blk.type !== "blockquote") return false;
+      if (type === "prose" && (isHeading || blk.type === "blockquote")) return false;
+      if (type === "headings" && !isHeading) return false;
+      if (source && blk.source !== source) return false;
+      if (!query) return true;
+      return this.outlineLines
+        .slice(blk.startLine, blk.endLine)
+        .join("\n")
+        .toLowerCase()
+        .includes(query);
+    });
+    const total = blocks.filter((blk) => blk.type !== "frontmatter").length;
+    const shown = matches.filter((m, i) => m && blocks[i].type !== "frontmatter").length;
+
+    // Headings stay visible around their matches, so results keep their context
+    for (const group of this.outlineGroups) {
+      for (const item of group.items) {
+        if (item.childIndices.some((i) => matches[i])) matches[item.headingIndex] = true;
+      }
+      if (group.childIndices.some((i) => matches[i])) matches[group.headingIndex] = true;
+    }
+
+    list.querySelectorAll<HTMLElement>(".na-note-card[data-index]").forEach((card) => {
+      card.toggleClass("na-filtered-out", !matches[Number(card.dataset.index)]);
+    });
+    return { shown, total };
+  }
+
+  // ── Multi-block selection ──
+
+  private selectedIndices(): number[] {
+    const indices: number[] = [];
+    this.outlineKeys.forEach((key, i) => {
+      if (this.selectedBlocks.has(key)) indices.push(i);
+    });
+    return indices;
+  }
+
+  private toggleSelection(index: number, blocks: ContentBlock[], extend: boolean) {
+    const key = this.outlineKeys[index];
+    const anchor = this.selectionAnchor ? this.outlineKeys.indexOf(this.selectionAnchor) : -1;
+    if (extend && anchor !== -1) {
+      // Shift-click: every content block between the anchor and here
+      const [from, to] = anchor < index ? [anchor, index] : [index, anchor];
+      for (let i = from; i <= to; i++) {
+        const type = blocks[i].type;
+        if (type !== "heading" && type !== "subheading" && type !== "frontmatter") {
+          this.selectedBlocks.add(this.outlineKeys[i]);
+        }
+      }
+    } else if (this.selectedBlocks.has(key)) {
+      this.selectedBlocks.delete(key);
+      this.selectionAnchor = key;
+    } else {
+      this.selectedBlocks.add(key);
+      this.selectionAnchor = key;
+    }
+    this.renderContent();
+  }
+
+  private clearSelection() {
+    this.selectedBlocks.clear();
+    this.selectionAnchor = null;
+    this.renderContent();
+  }
+
+  private renderSelectionBar(section: HTMLElement, project: Project) {
+    const indices = this.selectedIndices();
+    const bar = section.createDiv({ cls: "na-selection-bar" });
+    bar.createSpan({
+      cls: "na-selection-count",
+      text: `${indices.length} selected`,
+    });
+
+    const moveBtn = bar.createSpan({ cls: "na-selection-action clickable-icon" });
+    setIcon(moveBtn, "move-vertical");
+    moveBtn.setAttribute("title", "Move to the end of a section (or drag any selected card)");
+    moveBtn.addEventListener("click", (e) => {
+      const menu = new Menu();
+      this.outlineGroups.forEach((group, gi) => {
+        const next = this.outlineGroups[gi + 1];
+        menu.addItem((item) =>
+          item
+            .setTitle(group.heading.headingText || "")
+            .onClick(() =>
+              this.plugin.moveBlocks(project, indices, next ? next.headingIndex : this.outlineBlockCount)
+            )
+        );
+      });
+      menu.showAtMouseEvent(e);
+    });
+
+    const extractBtn = bar.createSpan({ cls: "na-selection-action clickable-icon" });
+    setIcon(extractBtn, "arrow-up-right");
+    extractBtn.setAttribute("title", "Extract selected blocks to one new note");
+    extractBtn.addEventListener("click", () => {
+      this.plugin.extractBlocks(project, indices);
+    });
+
+    const tagBtn = bar.createSpan({ cls: "na-selection-action clickable-icon" });
+    setIcon(tagBtn, "tag");
+    tagBtn.setAttribute("title", "Tag selected blocks");
+    tagBtn.addEventListener("click", () => {
+      new TagModal(this.app, (tag) => this.plugin.tagBlocks(project, indices, tag)).open();
+    });
+
+    const removeBtn = bar.createSpan({ cls: "na-selection-action clickable-icon" });
+    setIcon(removeBtn, "trash-2");
+    removeBtn.setAttribute("title", "Remove selected blocks");
+    removeBtn.addEventListener("click", async () => {
+      await this.plugin.removeBlocks(project, indices);
+    });
+
+    const clearBtn = bar.createSpan({ cls: "na-selection-action clickable-icon" });
+    setIcon(clearBtn, "x");
+    clearBtn.setAttribute("title", "Clear selection");
+    clearBtn.addEventListener("click", () => this.clearSelection());
+  }
+
+  // ── Where a dropped ### item goes (flat block index to insert before) ──
+
+  private itemInsertIndex(targetIdx: number, insertBefore: boolean): number {
+    const groups = this.outlineGroups;
+    const end = this.outlineBlockCount;
+    // First item slot of a container: before its first ###, else at its end
+    const firstItemSlot = (gi: number) =>
+      groups[gi].items[0]?.headingIndex ?? groups[gi + 1]?.headingIndex ?? end;
+
+    const gi = groups.findIndex(
+      (g) => g.headingIndex === targetIdx || g.childIndices.includes(targetIdx)
+    );
+    if (gi === -1) return groups[0]?.headingIndex ?? end; // before the first section
+    const group = groups[gi];
+    if (targetIdx === group.headingIndex) {
+      // Above a ## heading = end of the previous section; below = into this one
+      return insertBefore ? group.headingIndex : firstItemSlot(gi);
+    }
+    const item = group.items.find(
+      (it) => it.headingIndex === targetIdx || it.childIndices.includes(targetIdx)
+    );
+    if (!item) return firstItemSlot(gi);
+    if (insertBefore && targetIdx === item.headingIndex) return item.headingIndex;
+    return (item.childIndices[item.childIndices.length - 1] ?? item.headingIndex) + 1;
+  }
+
+  private scrollToSection(project: Project, section: Section) {
+    const leaves = this.app.workspace.getLeavesOfType("markdown");
+    for (const leaf of leaves) {
+      const view = leaf.view as any;
+      if (view?.file?.path === project.filePath && view?.editor) {
+        view.editor.setCursor({ line: section.startLine, ch: 0 });
+        view.editor.scrollIntoView(
+          {
+            from: { line: section.startLine, ch: 0 },
+            to: {
+              line: Math.min(section.startLine + 5, section.endLine),
+              ch: 0,
+            },
+          },
+          true
+        );
+        this.app.workspace.revealLeaf(leaf);
+        break;
+      }
+    }
+  }
+
+  private scrollToBlock(project: Project, block: ContentBlock) {
+    const leaves = this.app.workspace.getLeavesOfType("markdown");
+    for (const leaf of leaves) {
+      const view = leaf.view as any;
+      if (view?.file?.path === project.filePath && view?.editor) {
+        view.editor.setCursor({ line: block.startLine, ch: 0 });
+        view.editor.scrollIntoView(
+          {
+            from: { line: block.startLine, ch: 0 },
+            to: {
+              line: Math.min(block.startLine + 3, block.endLine),
+              ch: 0,
+            },
+          },
+          true
+        );
+        this.app.workspace.revealLeaf(leaf);
+        break;
+      }
+    }
+  }
+}
+
+// ── Source Suggest Modal (for Add Source) ────────────────────
+
+class SourceSuggestModal extends FuzzySuggestModal<TFile> {
+  project: Project;
+  existingPaths: Set<string>;
+  onChoose: (file: TFile) => void;
+  private activeFolder: string;
+  private plugin: NoteAssemblerPlugin;
+
+  constructor(
+    app: App,
     project: Project,
     existingPaths: Set<string>,
     plugin: NoteAssemblerPlugin,
@@ -2906,118 +5431,134 @@ class NoteSuggestModal extends FuzzySuggestModal<TFile> {
   }
 }
 
-// ── Track Existing File Modal ─────────────────────────────
+// ── Export Profile Picker ───────────────────────────────────
 
-class TrackFileModal extends FuzzySuggestModal<TFile> {
-  onChooseFile: (file: TFile) => void;
+class ExportProfileModal extends FuzzySuggestModal<ExportProfile> {
+  profiles: ExportProfile[];
+  onChoose: (profile: ExportProfile) => void;
 
-  constructor(app: App, onChoose: (file: TFile) => void) {
+  constructor(
+    app: App,
+    profiles: ExportProfile[],
+    onChoose: (profile: ExportProfile) => void
+  ) {
     super(app);
-    this.onChooseFile = onChoose;
-    this.setPlaceholder("Search for an existing note to track...");
+    this.profiles = profiles;
+    this.onChoose = onChoose;
+    this.setPlaceholder("Export with profile...");
   }
 
-  getItems(): TFile[] {
-    return this.app.vault.getMarkdownFiles();
+  getItems(): ExportProfile[] {
+    return this.profiles;
   }
 
-  getItemText(file: TFile): string {
-    return file.basename;
+  getItemText(item: ExportProfile): string {
+    return item.name;
   }
 
-  onChooseItem(file: TFile) {
-    this.onChooseFile(file);
+  onChooseItem(item: ExportProfile): void {
+    this.onChoose(item);
   }
 }
 
-// ── Help Modal ──────────────────────────────────────────────
+// ── Section Export Modal ────────────────────────────────────
+
+class SectionExportModal extends Modal {
+  headings: string[];
+  profiles: ExportProfile[];
+  part: ExportPart | null;
+  onExport: (headings: string[], profile: ExportProfile) => void;
+  onSavePart: (name: string, headings: string[]) => void;
+  onDeletePart: (partId: string) => void;
+
+  constructor(
+    app: App,
+    headings: string[],
+    profiles: ExportProfile[],
+    part: ExportPart | null,
+    onExport: (headings: string[], profile: ExportProfile) => void,
+    onSavePart: (name: string, headings: string[]) => void,
+    onDeletePart: (partId: string) => void
+  ) {
+    super(app);
+    this.headings = headings;
+    this.profiles = profiles;
+    this.part = part;
+    this.onExport = onExport;
+    this.onSavePart = onSavePart;
+    this.onDeletePart = onDeletePart;
+  }
 
-class CairnHelpModal extends Modal {
   onOpen() {
     const { contentEl } = this;
-    contentEl.addClass("cairn-help-modal");
+    contentEl.createEl("h3", {
+      text: this.part ? `Export Part: ${this.part.name}` : "Export Sections",
+    });
 
-    contentEl.createEl("h2", { text: "Welcome to Cairn" });
-    contentEl.createEl("p", {
-      text: "Cairn helps you compose essays from your notes. Think of it as a workbench — you gather source material, pull in the pieces you need, and arrange them into something new.",
+    const list = contentEl.createDiv({ cls: "na-section-pick-list" });
+    const checkboxes: { heading: string; cb: HTMLInputElement }[] = [];
+    this.headings.forEach((heading, i) => {
+      const row = list.createDiv({ cls: "fl-check-row" });
+      const cb = row.createEl("input", { type: "checkbox" });
+      cb.id = `na-section-pick-${i}`;
+      cb.checked = this.part ? this.part.headings.includes(heading) : true;
+      const label = row.createEl("label", { text: `${i + 1}. ${heading}` });
+      label.setAttr("for", cb.id);
+      checkboxes.push({ heading, cb });
     });
 
-    const idea = contentEl.createDiv({ cls: "cairn-help-concept" });
-    idea.createEl("h3", { text: "The idea" });
-    const ideaP = idea.createEl("p");
-    ideaP.appendText("If you keep ");
-    ideaP.createEl("a", {
-      text: "atomic notes",
-      href: "https://notes.andymatuschak.org/Evergreen_notes_should_be_atomic",
-    }).setAttr("target", "_blank");
-    ideaP.appendText(" — small notes about single ideas — Cairn gives you a way to weave them into longer pieces. It's inspired by the ");
-    ideaP.createEl("a", {
-      text: "Zettelkasten",
-      href: "https://zettelkasten.de/overview/",
-    }).setAttr("target", "_blank");
-    ideaP.appendText(" method of building knowledge from the bottom up.");
+    const selected = () =>
+      checkboxes.filter((c) => c.cb.checked).map((c) => c.heading);
 
-    const steps = contentEl.createDiv({ cls: "cairn-help-steps" });
-    steps.createEl("h3", { text: "How it works" });
+    const profileSelect = contentEl.createEl("select", { cls: "na-modal-input" });
+    this.profiles.forEach((profile, i) => {
+      profileSelect.createEl("option", { text: profile.name, value: String(i) });
+    });
 
-    const stepData = [
-      {
-        num: "1",
-        title: "Start an essay",
-        body: "Click the + New Essay button or track an existing note using the ribbon icon (the stacked layers in your left sidebar).",
-      },
-      {
-        num: "2",
-        title: "Gather sources",
-        body: "Right-click any note in your file explorer and send it to your project's source queue. These are the notes you'll draw from.",
-      },
-      {
-        num: "3",
-        title: "Pull quotes into your essay",
-        body: "Open a source in the sidebar, read through it, and select the parts you want. Right-click your selection and choose \"Add quote to essay.\" Cairn drops it right into your draft.",
-      },
-      {
-        num: "4",
-        title: "Arrange your thinking",
-        body: "Use the Outline tab to see your essay's structure. Drag sections around, add headings, and move blocks until the flow feels right.",
-      },
-      {
-        num: "5",
-        title: "Export when you're ready",
-        body: "Use the command palette (Cmd/Ctrl+P → \"Export final essay\") to copy a clean version to your clipboard.",
-      },
-    ];
+    const nameInput = contentEl.createEl("input", {
+      type: "text",
+      cls: "na-modal-input",
+      placeholder: "Part name (e.g. Part 1) \u2014 to save this selection",
+    });
+    if (this.part) nameInput.value = this.part.name;
 
-    for (const s of stepData) {
-      const row = steps.createDiv({ cls: "cairn-help-step" });
-      row.createSpan({ cls: "cairn-help-step-num", text: s.num });
-      const content = row.createDiv({ cls: "cairn-help-step-content" });
-      content.createEl("strong", { text: s.title });
-      content.createEl("p", { text: s.body });
+    const btnRow = contentEl.createDiv({ cls: "na-modal-buttons" });
+    if (this.part) {
+      const deleteBtn = btnRow.createEl("button", { text: "Delete part" });
+      deleteBtn.addEventListener("click", () => {
+        this.close();
+        this.onDeletePart(this.part!.id);
+      });
     }
+    const saveBtn = btnRow.createEl("button", { text: "Save part" });
+    saveBtn.addEventListener("click", () => {
+      const name = nameInput.value.trim();
+      if (!name) {
+        new Notice("Give the part a name first");
+        return;
+      }
+      if (selected().length === 0) {
+        new Notice("Select at least one section");
+        return;
+      }
+      this.onSavePart(name, selected());
+    });
 
-    const tips = contentEl.createDiv({ cls: "cairn-help-tips" });
-    tips.createEl("h3", { text: "Good to know" });
-    const tipList = tips.createEl("ul");
-
-    const distillTip = tipList.createEl("li");
-    distillTip.createEl("strong", { text: "Distill: " });
-    distillTip.appendText("Select any text and click the ✨ sparkles icon in the left sidebar to turn a highlight into its own note. Great for capturing ideas as you read.");
-
-    const archiveTip = tipList.createEl("li");
-    archiveTip.createEl("strong", { text: "Your notes are always yours: " });
-    archiveTip.appendText("Cairn never modifies your source notes. Your essay is a regular markdown file. If you stop using Cairn, everything stays exactly where it is.");
-
-    const folderTip = tipList.createEl("li");
-    folderTip.createEl("strong", { text: "Essay folder: " });
-    folderTip.appendText("New essays are saved to your Cairn Essays folder (you can change this in settings).");
-
-    const close = contentEl.createDiv({ cls: "cairn-help-footer" });
-    const closeBtn = close.createEl("button", {
-      cls: "na-btn na-btn-primary",
-      text: "Got it",
+    const exportBtn = btnRow.createEl("button", { cls: "mod-cta", text: "Export" });
+    exportBtn.addEventListener("click", () => {
+      const headings = selected();
+      const profile = this.profiles[parseInt(profileSelect.value, 10)];
+      if (headings.length === 0) {
+        new Notice("Select at least one section");
+        return;
+      }
+      if (!profile) {
+        new Notice("No export profiles \u2014 add one in Cairn settings");
+        return;
+      }
+      this.close();
+      this.onExport(headings, profile);
     });
-    closeBtn.addEventListener("click", () => this.close());
   }
 
   onClose() {
@@ -3025,19 +5566,369 @@ class CairnHelpModal extends Modal {
   }
 }
 
-// ── New Project Modal ───────────────────────────────────────
+// ── Snapshots Modal (list + side-by-side diff) ─────────────
 
-class NewProjectModal extends Modal {
-  onSubmit: (name: string) => void;
+class SnapshotsModal extends Modal {
+  plugin: NoteAssemblerPlugin;
+  project: Project;
+  file: TFile;
+  store: SnapshotStore;
+  selected: SnapshotEntry;
 
-  constructor(app: App, onSubmit: (name: string) => void) {
+  constructor(
+    app: App,
+    plugin: NoteAssemblerPlugin,
+    project: Project,
+    file: TFile,
+    store: SnapshotStore
+  ) {
     super(app);
-    this.onSubmit = onSubmit;
+    this.plugin = plugin;
+    this.project = project;
+    this.file = file;
+    this.store = store;
+    this.selected = store.snapshots[store.snapshots.length - 1];
   }
 
   onOpen() {
+    this.modalEl.addClass("na-snapshots-modal");
+    this.render();
+  }
+
+  async render() {
     const { contentEl } = this;
-    contentEl.createEl("h3", { text: "New Essay" });
+    const current = await this.plugin.getFileContent(this.file);
+    contentEl.empty();
+    contentEl.createEl("h3", { text: `Snapshots \u2014 ${this.project.name}` });
+
+    const layout = contentEl.createDiv({ cls: "na-snapshot-layout" });
+    const list = layout.createDiv({ cls: "na-snapshot-list" });
+    for (const entry of [...this.store.snapshots].reverse()) {
+      const row = list.createDiv({
+        cls: "na-snapshot-row" + (entry === this.selected ? " na-snapshot-row-active" : ""),
+      });
+      row.createDiv({ cls: "na-snapshot-time", text: new Date(entry.takenAt).toLocaleString() });
+      row.createDiv({ cls: "na-snapshot-label", text: entry.label });
+      row.addEventListener("click", () => {
+        this.selected = entry;
+        this.render();
+      });
+    }
+
+    const pane = layout.createDiv({ cls: "na-snapshot-pane" });
+    const snapshot = snapshotText(this.store, this.selected);
+    const currentLines = current.split("\n");
+    const snapshotLines = snapshot.split("\n");
+    const hunks = diffLines(currentLines, snapshotLines);
+
+    const toolbar = pane.createDiv({ cls: "na-snapshot-toolbar" });
+    const added = hunks.reduce((n, h) => n + h.newEnd - h.newStart, 0);
+    const removed = hunks.reduce((n, h) => n + h.oldEnd - h.oldStart, 0);
+    toolbar.createSpan({
+      cls: "na-snapshot-stats",
+      text: hunks.length === 0
+        ? "Same as the current essay"
+        : `${hunks.length} change(s): restoring brings back ${added} line(s) and drops ${removed}`,
+    });
+    const deleteBtn = toolbar.createEl("button", { text: "Delete" });
+    deleteBtn.addEventListener("click", async () => {
+      // Reload first so snapshots taken while the modal was open survive
+      this.store = await this.plugin.loadSnapshots(this.project);
+      const index = this.store.snapshots.findIndex((s) => s.id === this.selected.id);
+      if (index !== -1) this.store.snapshots.splice(index, 1);
+      await this.plugin.saveSnapshots(this.project, this.store);
+      if (this.store.snapshots.length === 0) {
+        this.close();
+        return;
+      }
+      this.selected = this.store.snapshots[this.store.snapshots.length - 1];
+      this.render();
+    });
+    const restoreAll = toolbar.createEl("button", { cls: "mod-cta", text: "Restore whole file" });
+    restoreAll.disabled = hunks.length === 0;
+    restoreAll.addEventListener("click", async () => {
+      // Re-read so edits made while the modal was open are kept in the snapshot,
+      // which lets the restore itself be undone
+      const latest = await this.plugin.getFileContent(this.file);
+      await this.plugin.takeSnapshot(this.project, "Before restoring a snapshot", latest);
+      if (!(await this.plugin.setFileContent(this.file, snapshot, latest))) return;
+      new Notice("Restored snapshot");
+      this.close();
+    });
+
+    const columns = pane.createDiv({ cls: "na-diff-header" });
+    columns.createDiv({ text: "Current" });
+    columns.createDiv({ text: "Snapshot" });
+
+    for (const hunk of hunks) {
+      const hunkEl = pane.createDiv({ cls: "na-diff-hunk" });
+      const head = hunkEl.createDiv({ cls: "na-diff-hunk-head" });
+      head.createSpan({ text: `Line ${hunk.oldStart + 1}` });
+      const restoreBtn = head.createEl("button", { text: "Restore this change" });
+      restoreBtn.addEventListener("click", async () => {
+        // The essay changed since this diff was drawn: redraw instead
+        if ((await this.plugin.getFileContent(this.file)) !== current) {
+          this.render();
+          return;
+        }
+        const lines = current.split("\n");
+        lines.splice(
+          hunk.oldStart,
+          hunk.oldEnd - hunk.oldStart,
+          ...snapshotLines.slice(hunk.newStart, hunk.newEnd)
+        );
+        await this.plugin.takeSnapshot(this.project, "Before restoring a change", current);
+        await this.plugin.setFileContent(this.file, lines.join("\n"), current);
+        // Pick up the new snapshot in the list, keeping the same one selected
+        this.store = await this.plugin.loadSnapshots(this.project);
+        this.selected =
+          this.store.snapshots.find((s) => s.id === this.selected.id) ??
+          this.store.snapshots[this.store.snapshots.length - 1];
+        this.render();
+      });
+
+      const body = hunkEl.createDiv({ cls: "na-diff-body" });
+      const left = body.createDiv({ cls: "na-diff-side na-diff-current" });
+      const right = body.createDiv({ cls: "na-diff-side na-diff-snapshot" });
+      for (const line of currentLines.slice(hunk.oldStart, hunk.oldEnd)) {
+        left.createDiv({ cls: "na-diff-line", text: line || "\u00A0" });
+      }
+      for (const line of snapshotLines.slice(hunk.newStart, hunk.newEnd)) {
+        right.createDiv({ cls: "na-diff-line", text: line || "\u00A0" });
+      }
+    }
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+}
+
+// ── Arrangements Modal ──────────────────────────────────────
+
+class ArrangementsModal extends Modal {
+  arrangements: Arrangement[];
+  onSave: (name: string) => Promise<void>;
+  onApply: (arrangement: Arrangement) => Promise<void>;
+  onDelete: (arrangementId: string) => Promise<void>;
+
+  constructor(
+    app: App,
+    arrangements: Arrangement[],
+    onSave: (name: string) => Promise<void>,
+    onApply: (arrangement: Arrangement) => Promise<void>,
+    onDelete: (arrangementId: string) => Promise<void>
+  ) {
+    super(app);
+    this.arrangements = arrangements;
+    this.onSave = onSave;
+    this.onApply = onApply;
+    this.onDelete = onDelete;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.createEl("h3", { text: "Section Arrangements" });
+
+    if (this.arrangements.length === 0) {
+      contentEl.createEl("p", {
+        cls: "na-empty",
+        text: "No saved arrangements yet. Save the current section order to come back to it later.",
+      });
+    }
+
+    const list = contentEl.createDiv({ cls: "na-arrangement-list" });
+    for (const arrangement of this.arrangements) {
+      const row = list.createDiv({ cls: "na-arrangement-row" });
+      const info = row.createDiv({ cls: "na-arrangement-info" });
+      info.createDiv({ cls: "na-arrangement-name", text: arrangement.name });
+      info.createDiv({
+        cls: "na-arrangement-meta",
+        text: `${arrangement.headings.length} sections \u00B7 ${new Date(arrangement.savedAt).toLocaleString()}`,
+      });
+      info.setAttribute("title", arrangement.headings.map((h, i) => `${i + 1}. ${h}`).join("\n"));
+
+      const updateBtn = row.createEl("button", { text: "Update" });
+      updateBtn.setAttribute("title", "Replace with the current order");
+      updateBtn.addEventListener("click", async () => {
+        await this.onSave(arrangement.name);
+        this.onOpen();
+      });
+
+      const deleteBtn = row.createEl("button", { text: "Delete" });
+      deleteBtn.addEventListener("click", async () => {
+        await this.onDelete(arrangement.id);
+        this.onOpen();
+      });
+
+      const switchBtn = row.createEl("button", { cls: "mod-cta", text: "Switch" });
+      switchBtn.addEventListener("click", async () => {
+        this.close();
+        await this.onApply(arrangement);
+      });
+    }
+
+    const nameInput = contentEl.createEl("input", {
+      type: "text",
+      cls: "na-modal-input",
+      placeholder: "Name for the current order (e.g. Chronological)",
+    });
+    const save = async () => {
+      const name = nameInput.value.trim();
+      if (!name) {
+        new Notice("Give the arrangement a name first");
+        return;
+      }
+      await this.onSave(name);
+      this.onOpen();
+    };
+    nameInput.addEventListener("keydown", (e) => {
+      if (e.key === "Enter") save();
+    });
+
+    const btnRow = contentEl.createDiv({ cls: "na-modal-buttons" });
+    const saveBtn = btnRow.createEl("button", { cls: "mod-cta", text: "Save current order" });
+    saveBtn.addEventListener("click", save);
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+}
+
+// ── Track Existing File Modal ─────────────────────────────
+
+class TrackFileModal extends FuzzySuggestModal<TFile> {
+  onChooseFile: (file: TFile) => void;
+
+  constructor(app: App, onChoose: (file: TFile) => void) {
+    super(app);
+    this.onChooseFile = onChoose;
+    this.setPlaceholder("Search for an existing note to track...");
+  }
+
+  getItems(): TFile[] {
+    return this.app.vault.getMarkdownFiles();
+  }
+
+  getItemText(file: TFile): string {
+    return file.basename;
+  }
+
+  onChooseItem(file: TFile) {
+    this.onChooseFile(file);
+  }
+}
+
+// ── Help Modal ──────────────────────────────────────────────
+
+class CairnHelpModal extends Modal {
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.addClass("cairn-help-modal");
+
+    contentEl.createEl("h2", { text: "Welcome to Cairn" });
+    contentEl.createEl("p", {
+      text: "Cairn helps you compose essays from your notes. Think of it as a workbench — you gather source material, pull in the pieces you need, and arrange them into something new.",
+    });
+
+    const idea = contentEl.createDiv({ cls: "cairn-help-concept" });
+    idea.createEl("h3", { text: "The idea" });
+    const ideaP = idea.createEl("p");
+    ideaP.appendText("If you keep ");
+    ideaP.createEl("a", {
+      text: "atomic notes",
+      href: "https://notes.andymatuschak.org/Evergreen_notes_should_be_atomic",
+    }).setAttr("target", "_blank");
+    ideaP.appendText(" — small notes about single ideas — Cairn gives you a way to weave them into longer pieces. It's inspired by the ");
+    ideaP.createEl("a", {
+      text: "Zettelkasten",
+      href: "https://zettelkasten.de/overview/",
+    }).setAttr("target", "_blank");
+    ideaP.appendText(" method of building knowledge from the bottom up.");
+
+    const steps = contentEl.createDiv({ cls: "cairn-help-steps" });
+    steps.createEl("h3", { text: "How it works" });
+
+    const stepData = [
+      {
+        num: "1",
+        title: "Start an essay",
+        body: "Click the + New Essay button or track an existing note using the ribbon icon (the stacked layers in your left sidebar).",
+      },
+      {
+        num: "2",
+        title: "Gather sources",
+        body: "Right-click any note in your file explorer and send it to your project's source queue. These are the notes you'll draw from.",
+      },
+      {
+        num: "3",
+        title: "Pull quotes into your essay",
+        body: "Open a source in the sidebar, read through it, and select the parts you want. Right-click your selection and choose \"Add quote to essay.\" Cairn drops it right into your draft.",
+      },
+      {
+        num: "4",
+        title: "Arrange your thinking",
+        body: "Use the Outline tab to see your essay's structure. Drag sections around, add headings, and move blocks until the flow feels right.",
+      },
+      {
+        num: "5",
+        title: "Export when you're ready",
+        body: "Use the command palette (Cmd/Ctrl+P → \"Export final essay\") to copy a clean version to your clipboard.",
+      },
+    ];
+
+    for (const s of stepData) {
+      const row = steps.createDiv({ cls: "cairn-help-step" });
+      row.createSpan({ cls: "cairn-help-step-num", text: s.num });
+      const content = row.createDiv({ cls: "cairn-help-step-content" });
+      content.createEl("strong", { text: s.title });
+      content.createEl("p", { text: s.body });
+    }
+
+    const tips = contentEl.createDiv({ cls: "cairn-help-tips" });
+    tips.createEl("h3", { text: "Good to know" });
+    const tipList = tips.createEl("ul");
+
+    const distillTip = tipList.createEl("li");
+    distillTip.createEl("strong", { text: "Distill: " });
+    distillTip.appendText("Select any text and click the ✨ sparkles icon in the left sidebar to turn a highlight into its own note. Great for capturing ideas as you read.");
+
+    const archiveTip = tipList.createEl("li");
+    archiveTip.createEl("strong", { text: "Your notes are always yours: " });
+    archiveTip.appendText("Cairn never modifies your source notes. Your essay is a regular markdown file. If you stop using Cairn, everything stays exactly where it is.");
+
+    const folderTip = tipList.createEl("li");
+    folderTip.createEl("strong", { text: "Essay folder: " });
+    folderTip.appendText("New essays are saved to your Cairn Essays folder (you can change this in settings).");
+
+    const close = contentEl.createDiv({ cls: "cairn-help-footer" });
+    const closeBtn = close.createEl("button", {
+      cls: "na-btn na-btn-primary",
+      text: "Got it",
+    });
+    closeBtn.addEventListener("click", () => this.close());
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+}
+
+// ── New Project Modal ───────────────────────────────────────
+
+class NewProjectModal extends Modal {
+  onSubmit: (name: string) => void;
+
+  constructor(app: App, onSubmit: (name: string) => void) {
+    super(app);
+    this.onSubmit = onSubmit;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.createEl("h3", { text: "New Essay" });
 
     const input = contentEl.createEl("input", {
       type: "text",
@@ -3073,6 +5964,171 @@ class NewProjectModal extends Modal {
   }
 }
 
+// ── Section Heading Modal (split) ───────────────────────────
+
+class SectionHeadingModal extends Modal {
+  title: string;
+  onSubmit: (heading: string) => void;
+
+  constructor(app: App, title: string, onSubmit: (heading: string) => void) {
+    super(app);
+    this.title = title;
+    this.onSubmit = onSubmit;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.createEl("h3", { text: this.title });
+
+    const input = contentEl.createEl("input", {
+      type: "text",
+      cls: "na-modal-input",
+      placeholder: "Heading for the new section",
+    });
+    input.focus();
+
+    const submit = () => {
+      const heading = input.value.trim().replace(/^#+\s*/, "");
+      if (!heading) {
+        new Notice("Heading cannot be empty");
+        return;
+      }
+      this.close();
+      this.onSubmit(heading);
+    };
+
+    input.addEventListener("keydown", (e) => {
+      if (e.key === "Enter") submit();
+    });
+
+    const btnRow = contentEl.createDiv({ cls: "na-modal-buttons" });
+    const splitBtn = btnRow.createEl("button", {
+      cls: "mod-cta",
+      text: "Split",
+    });
+    splitBtn.addEventListener("click", submit);
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+}
+
+// ── Tag Modal (multi-block selection) ───────────────────────
+
+class TagModal extends Modal {
+  onSubmit: (tag: string) => void;
+
+  constructor(app: App, onSubmit: (tag: string) => void) {
+    super(app);
+    this.onSubmit = onSubmit;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.createEl("h3", { text: "Tag Selected Blocks" });
+
+    const input = contentEl.createEl("input", {
+      type: "text",
+      cls: "na-modal-input",
+      placeholder: "Tag, e.g. needs-source",
+    });
+    input.focus();
+
+    const submit = () => {
+      const tag = input.value.trim().replace(/^#+/, "").replace(/\s+/g, "-");
+      if (!tag) {
+        new Notice("Tag cannot be empty");
+        return;
+      }
+      this.close();
+      this.onSubmit(tag);
+    };
+
+    input.addEventListener("keydown", (e) => {
+      if (e.key === "Enter") submit();
+    });
+
+    const btnRow = contentEl.createDiv({ cls: "na-modal-buttons" });
+    const tagBtn = btnRow.createEl("button", {
+      cls: "mod-cta",
+      text: "Tag",
+    });
+    tagBtn.addEventListener("click", submit);
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+}
+
+// ── Word Target Modal ───────────────────────────────────────
+
+class WordTargetModal extends Modal {
+  name: string;
+  current: number | undefined;
+  onSubmit: (target: number | undefined) => void;
+
+  constructor(
+    app: App,
+    name: string,
+    current: number | undefined,
+    onSubmit: (target: number | undefined) => void
+  ) {
+    super(app);
+    this.name = name;
+    this.current = current;
+    this.onSubmit = onSubmit;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.createEl("h3", { text: "Word Target" });
+    contentEl.createEl("p", { text: this.name, cls: "na-extract-filename" });
+
+    const input = contentEl.createEl("input", {
+      type: "number",
+      cls: "na-modal-input",
+      placeholder: "Words, e.g. 500",
+    });
+    input.min = "1";
+    if (this.current) input.value = String(this.current);
+    input.focus();
+
+    const submit = () => {
+      const value = parseInt(input.value, 10);
+      if (!(value > 0)) {
+        new Notice("Enter a positive number of words");
+        return;
+      }
+      this.close();
+      this.onSubmit(value);
+    };
+
+    input.addEventListener("keydown", (e) => {
+      if (e.key === "Enter") submit();
+    });
+
+    const btnRow = contentEl.createDiv({ cls: "na-modal-buttons" });
+    if (this.current) {
+      const clearBtn = btnRow.createEl("button", { text: "Clear target" });
+      clearBtn.addEventListener("click", () => {
+        this.close();
+        this.onSubmit(undefined);
+      });
+    }
+    const setBtn = btnRow.createEl("button", {
+      cls: "mod-cta",
+      text: "Set",
+    });
+    setBtn.addEventListener("click", submit);
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+}
+
 // ── Extract Modal ───────────────────────────────────────────
 
 class ExtractModal extends Modal {
@@ -3439,6 +6495,21 @@ class NoteAssemblerSettingTab extends PluginSettingTab {
           })
       );
 
+    new Setting(containerEl)
+      .setName("Insert at cursor section")
+      .setDesc(
+        "When no heading is picked in the Outline, quotes and notes go into the section holding the editor cursor instead of above the pinned section"
+      )
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.data.settings.targetFollowsCursor)
+          .onChange(async (value) => {
+            this.plugin.data.settings.targetFollowsCursor = value;
+            await this.plugin.savePluginData();
+            this.plugin.refreshView();
+          })
+      );
+
     new Setting(containerEl)
       .setName("Max related notes")
       .setDesc(
@@ -3481,19 +6552,39 @@ class NoteAssemblerSettingTab extends PluginSettingTab {
     containerEl.createEl("h3", { text: "Export" });
 
     new Setting(containerEl)
-      .setName("Include headings in export")
+      .setName("Overwrite previous export")
       .setDesc(
-        "When off, section headings (## lines) are stripped from the exported essay"
+        "When off, re-exporting to a file creates a new versioned file (Essay v2, v3...) instead of replacing the last one"
       )
       .addToggle((toggle) =>
         toggle
-          .setValue(this.plugin.data.settings.exportIncludeHeadings)
+          .setValue(this.plugin.data.settings.exportOverwrite)
           .onChange(async (value) => {
-            this.plugin.data.settings.exportIncludeHeadings = value;
+            this.plugin.data.settings.exportOverwrite = value;
             await this.plugin.savePluginData();
           })
       );
 
+    containerEl.createEl("h4", { text: "Export profiles" });
+    containerEl.createEl("p", {
+      text: "Each profile shows up under Export Final Essay in the Outline tab. The first profile is the default.",
+      cls: "setting-item-description",
+    });
+
+    for (const profile of this.plugin.data.settings.exportProfiles) {
+      this.renderExportProfile(containerEl, profile);
+    }
+
+    new Setting(containerEl).addButton((btn) =>
+      btn.setButtonText("Add profile").onClick(async () => {
+        this.plugin.data.settings.exportProfiles.push(
+          newExportProfile("New profile", "markdown", "clipboard")
+        );
+        await this.plugin.savePluginData();
+        this.display();
+      })
+    );
+
     containerEl.createEl("h3", { text: "Distill" });
 
     new Setting(containerEl)
@@ -3566,6 +6657,22 @@ class NoteAssemblerSettingTab extends PluginSettingTab {
         new Setting(containerEl)
           .setName(p.name)
           .setDesc(p.filePath)
+          .addDropdown((dropdown) =>
+            dropdown
+              .addOption("1", "Sections: #")
+              .addOption("2", "Sections: ##")
+              .addOption("3", "Sections: ###")
+              .addOption("4", "Sections: ####")
+              .addOption("markers", "Sections: %% section %%")
+              .setValue(p.sectionMarkers ? "markers" : String(p.sectionLevel ?? 2))
+              .onChange(async (value) => {
+                p.sectionMarkers = value === "markers";
+                if (value !== "markers") p.sectionLevel = parseInt(value, 10);
+                await this.plugin.savePluginData();
+                this.plugin.updateProjectFileClass();
+                this.plugin.refreshView();
+              })
+          )
           .addButton((btn) =>
             btn
               .setButtonText("Archive")
@@ -3616,6 +6723,164 @@ class NoteAssemblerSettingTab extends PluginSettingTab {
     });
     ghLink.setAttr("target", "_blank");
   }
+
+  private renderExportProfile(containerEl: HTMLElement, profile: ExportProfile) {
+    const box = containerEl.createDiv({ cls: "na-export-profile" });
+    const profiles = this.plugin.data.settings.exportProfiles;
+    const save = () => this.plugin.savePluginData();
+
+    new Setting(box)
+      .setName("Profile name")
+      .addText((text) =>
+        text.setValue(profile.name).onChange(async (value) => {
+          profile.name = value.trim() || "Untitled profile";
+          await save();
+        })
+      )
+      .addExtraButton((btn) =>
+        btn
+          .setIcon("trash")
+          .setTooltip("Delete profile")
+          .setDisabled(profiles.length <= 1)
+          .onClick(async () => {
+            if (profiles.length <= 1) return;
+            profiles.splice(profiles.indexOf(profile), 1);
+            await save();
+            this.display();
+          })
+      );
+
+    new Setting(box)
+      .setName("Format")
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption("markdown", "Markdown")
+          .addOption("html", "HTML")
+          .addOption("docx", "Word (.docx)")
+          .addOption("pandoc", "Pandoc markdown + CSL-JSON")
+          .addOption("bundle", "Static-site page bundle")
+          .setValue(profile.format)
+          .onChange(async (value) => {
+            profile.format = value as ExportProfile["format"];
+            if (
+              FILE_ONLY_FORMATS.includes(profile.format) &&
+              profile.destination === "clipboard"
+            ) {
+              profile.destination = "folder";
+            }
+            await save();
+            this.display();
+          })
+      );
+
+    new Setting(box)
+      .setName("Output")
+      .addDropdown((dropdown) => {
+        if (!FILE_ONLY_FORMATS.includes(profile.format)) {
+          dropdown.addOption("clipboard", "Clipboard");
+        }
+        dropdown
+          .addOption("folder", "Export folder")
+          .addOption("essay", "Next to the essay")
+          .setValue(profile.destination)
+          .onChange(async (value) => {
+            profile.destination = value as ExportProfile["destination"];
+            await save();
+            this.display();
+          });
+      });
+
+    if (profile.destination === "folder") {
+      new Setting(box)
+        .setName("Export folder")
+        .setDesc("Leave blank for vault root")
+        .addText((text) =>
+          text
+            .setPlaceholder("Cairn Exports")
+            .setValue(profile.folder)
+            .onChange(async (value) => {
+              profile.folder = value.trim().replace(/\/+$/, "");
+              await save();
+            })
+        );
+    }
+
+    if (profile.format === "bundle") {
+      new Setting(box)
+        .setName("Permalink pattern")
+        .setDesc(
+          "Site URL for internal links. {slug} is the note's slug (frontmatter or from its name), {folder} its folder. A note's own permalink frontmatter wins"
+        )
+        .addText((text) =>
+          text
+            .setPlaceholder("/{slug}/")
+            .setValue(profile.permalinkPattern)
+            .onChange(async (value) => {
+              profile.permalinkPattern = value.trim() || "/{slug}/";
+              await save();
+            })
+        );
+    }
+
+    new Setting(box)
+      .setName("Include headings")
+      .setDesc("When off, section headings (## lines) are stripped")
+      .addToggle((toggle) =>
+        toggle.setValue(profile.includeHeadings).onChange(async (value) => {
+          profile.includeHeadings = value;
+          await save();
+        })
+      );
+
+    new Setting(box)
+      .setName("Source attributions")
+      .setDesc(
+        profile.format === "docx"
+          ? "Word documents turn [[source|*]] into real footnotes unless stripped"
+          : profile.format === "pandoc"
+            ? "Pandoc exports turn [[source|*]] into [@citekey] citations unless stripped"
+            : "What happens to inline [[source|*]] links"
+      )
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption("strip", "Strip")
+          .addOption("keep", "Keep as links")
+          .addOption("footnotes", "Numbered footnotes")
+          .addOption("citations", "Formatted citations")
+          .setValue(profile.attributions)
+          .onChange(async (value) => {
+            profile.attributions = value as ExportProfile["attributions"];
+            await save();
+            this.display();
+          })
+      );
+
+    if (profile.attributions === "citations") {
+      new Setting(box)
+        .setName("Citation style")
+        .addDropdown((dropdown) =>
+          dropdown
+            .addOption("author-date", "Author-date")
+            .addOption("chicago", "Chicago (notes)")
+            .addOption("mla", "MLA")
+            .setValue(profile.citationStyle)
+            .onChange(async (value) => {
+              profile.citationStyle = value as CitationStyle;
+              await save();
+            })
+        );
+    }
+
+    new Setting(box)
+      .setName(`${this.plugin.data.settings.pinnedSectionName} as bibliography`)
+      .setDesc("Append every source listed in the pinned section, with author, title and URL")
+      .addToggle((toggle) =>
+        toggle.setValue(profile.sourcesAsBibliography).onChange(async (value) => {
+          profile.sourcesAsBibliography = value;
+          await save();
+        })
+      );
+  }
 }
 
 // ── Readwise / Distill Helpers ───────────────────────────────
@@ -3669,7 +6934,150 @@ function parseSourceMetadata(content: string): SourceMetadata {
     }
   }
 
-  return meta;
+  return meta;
+}
+
+// ── Citation Formatting ──────────────────────────────────────
+
+type CitationStyle = "author-date" | "chicago" | "mla";
+
+interface CitationSource {
+  name: string; // source note basename
+  author: string;
+  title: string;
+  url: string;
+  category: string;
+  date: string;
+  citekey: string; // from frontmatter, for Pandoc
+  missing: boolean; // author or title had to fall back
+}
+
+const CITATION_BIBLIOGRAPHY_HEADINGS: Record<CitationStyle, string> = {
+  "author-date": "References",
+  chicago: "Bibliography",
+  mla: "Works Cited",
+};
+
+function formatCitation(
+  src: CitationSource,
+  style: CitationStyle,
+  kind: "inline" | "note" | "bibliography"
+): string {
+  const year = src.date.match(/\d{4}/)?.[0] ?? "";
+  // Books are italicized, everything else (articles, podcasts, tweets) is quoted
+  const isBook = /book/i.test(src.category);
+  const title = isBook ? `*${src.title}*` : `\u201C${src.title}\u201D`;
+  const lastName = authorLastName(src.author);
+
+  if (kind === "inline") {
+    const who = lastName || title;
+    if (style === "mla") return `(${who})`;
+    return `(${who} ${year || "n.d."})`;
+  }
+
+  if (kind === "note") {
+    return joinCitation([src.author, title, src.date, src.url], ",");
+  }
+
+  const author = invertAuthor(src.author);
+  if (style === "author-date") {
+    return joinCitation([author, year || "n.d.", title, src.url], ".");
+  }
+  if (style === "mla") {
+    const tail = [src.date, src.url].filter((p) => !!p).join(", ");
+    return joinCitation([author, title, tail], ".");
+  }
+  return joinCitation([author, title, src.date, src.url], ".");
+}
+
+// Join citation parts, tucking punctuation inside closing quotes
+function joinCitation(parts: string[], separator: "." | ","): string {
+  const kept = parts.filter((p) => !!p);
+  return kept
+    .map((part, i) => {
+      const mark = i === kept.length - 1 ? "." : separator;
+      if (part.endsWith("\u201D")) return part.slice(0, -1) + mark + "\u201D";
+      return part.endsWith(mark) ? part : part + mark;
+    })
+    .join(" ");
+}
+
+// Author. Title. URL — used for plain footnotes and the Sources list
+function basicCitation(src: CitationSource): string {
+  return [src.author, src.title, src.url].filter((p) => !!p).join(". ");
+}
+
+// "doe2021", or a slug of the note name when there's no author
+function makeCitekey(src: CitationSource): string {
+  const year = src.date.match(/\d{4}/)?.[0] ?? "";
+  const base = authorLastName(src.author) || src.name;
+  const slug = base
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  return (slug || "source") + year;
+}
+
+function uniqueCitekey(key: string, taken: string[]): string {
+  if (!taken.includes(key)) return key;
+  let suffix = 0;
+  while (taken.includes(key + String.fromCharCode(97 + suffix))) suffix++;
+  return key + String.fromCharCode(97 + suffix);
+}
+
+function buildCslItem(src: CitationSource, id: string): Record<string, unknown> {
+  const item: Record<string, unknown> = {
+    id,
+    type: /book/i.test(src.category)
+      ? "book"
+      : /podcast/i.test(src.category)
+        ? "broadcast"
+        : /tweet/i.test(src.category)
+          ? "post"
+          : src.url
+            ? "webpage"
+            : "article",
+    title: src.title,
+  };
+  if (src.author) {
+    item.author = src.author.split(/ and | & |; /).map((name) => {
+      const trimmed = name.trim();
+      if (trimmed.includes(",")) {
+        const [family, given] = trimmed.split(",").map((p) => p.trim());
+        return { family, given };
+      }
+      const words = trimmed.split(/\s+/);
+      if (words.length < 2) return { literal: trimmed };
+      return { family: words[words.length - 1], given: words.slice(0, -1).join(" ") };
+    });
+  }
+  if (src.url) item.URL = src.url;
+  const dateParts = src.date.match(/^(\d{4})(?:-(\d{1,2}))?(?:-(\d{1,2}))?/);
+  if (dateParts) {
+    item.issued = {
+      "date-parts": [dateParts.slice(1).filter((p) => !!p).map((p) => parseInt(p, 10))],
+    };
+  } else if (src.date) {
+    item.issued = { raw: src.date };
+  }
+  return item;
+}
+
+function authorLastName(author: string): string {
+  const first = author.split(/[,;]| and | & /)[0].trim();
+  return first.split(/\s+/).pop() ?? "";
+}
+
+// "Jane Doe" → "Doe, Jane" (first author only; leaves already-inverted names alone)
+function invertAuthor(author: string): string {
+  if (!author || author.includes(",")) return author;
+  const [first, ...rest] = author.split(/; | and | & /);
+  const words = first.trim().split(/\s+/);
+  if (words.length < 2) return author;
+  const inverted = `${words[words.length - 1]}, ${words.slice(0, -1).join(" ")}`;
+  return rest.length > 0 ? `${inverted}, and ${rest.join(", ")}` : inverted;
 }
 
 interface HighlightMatch {
@@ -3740,6 +7148,705 @@ function findMatchingHighlight(
   return null;
 }
 
+// ── HTML Export Helpers ──────────────────────────────────────
+
+const HTML_EXPORT_CSS = `
+  body { margin: 0; padding: 3rem 1.5rem; background: #fff; color: #1a1a1a; }
+  article { max-width: 40rem; margin: 0 auto; font: 1.125rem/1.7 Georgia, "Times New Roman", serif; }
+  h1, h2, h3, h4, h5, h6 { font-family: -apple-system, "Helvetica Neue", Arial, sans-serif; line-height: 1.25; margin: 2em 0 0.6em; }
+  h1 { font-size: 2rem; margin-top: 0; }
+  h2 { font-size: 1.4rem; }
+  h3 { font-size: 1.15rem; }
+  p, ul, ol { margin: 0 0 1.1em; }
+  blockquote { margin: 1.5em 0; padding: 0 0 0 1.2em; border-left: 3px solid #c8c8c8; color: #444; font-style: italic; }
+  blockquote p:last-child { margin-bottom: 0; }
+  a { color: #1a5fb4; }
+  code { font-family: Menlo, Consolas, monospace; font-size: 0.9em; background: #f3f3f3; padding: 0.1em 0.3em; border-radius: 3px; }
+  img { max-width: 100%; }
+  hr { border: 0; border-top: 1px solid #ddd; margin: 2.5em 0; }
+  mark { background: #fff3a3; }
+  .footnotes { font-size: 0.85em; color: #555; }
+`;
+
+const HTML_LIST_ITEM = /^(\s*)([-*+]|\d+[.)])\s+(.*)$/;
+const FOOTNOTE_DEF = /^\[\^([^\]]+)]:\s*(.*)$/;
+
+function buildStandaloneHtml(title: string, bodyHtml: string): string {
+  return [
+    "<!DOCTYPE html>",
+    "<html lang=\"en\">",
+    "<head>",
+    "<meta charset=\"utf-8\">",
+    "<meta name=\"viewport\" content=\"width=device-width, initial-scale=1\">",
+    `<title>${escapeHtml(title)}</title>`,
+    `<style>${HTML_EXPORT_CSS}</style>`,
+    "</head>",
+    "<body>",
+    "<article>",
+    bodyHtml,
+    "</article>",
+    "</body>",
+    "</html>",
+    "",
+  ].join("\n");
+}
+
+function isHtmlBlockStart(line: string): boolean {
+  return (
+    /^#{1,6}\s+/.test(line) ||
+    /^>/.test(line) ||
+    /^(-{3,}|\*{3,}|_{3,})\s*$/.test(line) ||
+    HTML_LIST_ITEM.test(line) ||
+    FOOTNOTE_DEF.test(line)
+  );
+}
+
+function markdownToHtml(markdown: string): string {
+  const lines = markdown.split("\n");
+  const out: string[] = [];
+  const notes: string[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (line.trim() === "") { i++; continue; }
+
+    const footnote = line.match(FOOTNOTE_DEF);
+    if (footnote) {
+      const id = escapeHtml(footnote[1]);
+      notes.push(
+        `<li id="fn-${id}">${renderInlineHtml(footnote[2])}</li>`
+      );
+      i++;
+      continue;
+    }
+
+    // Same test as isHtmlBlockStart, so a bare "## " is consumed here too
+    const heading = line.match(/^(#{1,6})\s+(.*)$/);
+    if (heading) {
+      const level = heading[1].length;
+      const text = heading[2].trim();
+      if (text) out.push(`<h${level}>${renderInlineHtml(text)}</h${level}>`);
+      i++;
+      continue;
+    }
+
+    if (/^(-{3,}|\*{3,}|_{3,})\s*$/.test(line)) {
+      out.push("<hr>");
+      i++;
+      continue;
+    }
+
+    // Blockquote: strip one level of > and render the inside recursively
+    if (/^>/.test(line)) {
+      const inner: string[] = [];
+      while (i < lines.length && /^>/.test(lines[i])) {
+        inner.push(lines[i].replace(/^>\s?/, ""));
+        i++;
+      }
+      out.push(`<blockquote>\n${markdownToHtml(inner.join("\n"))}\n</blockquote>`);
+      continue;
+    }
+
+    // List: item lines plus indented continuation lines
+    if (HTML_LIST_ITEM.test(line)) {
+      const listLines: string[] = [];
+      while (
+        i < lines.length &&
+        lines[i].trim() !== "" &&
+        (HTML_LIST_ITEM.test(lines[i]) || /^\s+\S/.test(lines[i]))
+      ) {
+        listLines.push(lines[i]);
+        i++;
+      }
+      out.push(renderListHtml(listLines));
+      continue;
+    }
+
+    // Paragraph: consecutive lines until a blank line or another block
+    const para: string[] = [];
+    while (i < lines.length && lines[i].trim() !== "" && !isHtmlBlockStart(lines[i])) {
+      para.push(renderInlineHtml(lines[i].trim()));
+      i++;
+    }
+    // Always consume at least one line so an unhandled block start can't stall
+    if (para.length === 0) {
+      para.push(renderInlineHtml(line.trim()));
+      i++;
+    }
+    out.push(`<p>${para.join("<br>\n")}</p>`);
+  }
+
+  if (notes.length > 0) {
+    out.push(`<section class="footnotes">\n<hr>\n<ol>\n${notes.join("\n")}\n</ol>\n</section>`);
+  }
+  return out.join("\n");
+}
+
+function renderListHtml(lines: string[]): string {
+  const html: string[] = [];
+  const stack: { indent: number; tag: string }[] = [];
+
+  for (const line of lines) {
+    const m = line.match(HTML_LIST_ITEM);
+    if (!m) {
+      // Continuation of the previous item
+      html.push(`<br>${renderInlineHtml(line.trim())}`);
+      continue;
+    }
+    const indent = m[1].replace(/\t/g, "    ").length;
+    const tag = /^\d/.test(m[2]) ? "ol" : "ul";
+
+    while (stack.length > 0 && stack[stack.length - 1].indent > indent) {
+      html.push(`</li></${stack.pop()!.tag}>`);
+    }
+    if (stack.length > 0 && stack[stack.length - 1].indent === indent) {
+      html.push("</li>");
+    } else {
+      html.push(`<${tag}>`);
+      stack.push({ indent, tag });
+    }
+    html.push(`<li>${renderInlineHtml(m[3])}`);
+  }
+  while (stack.length > 0) {
+    html.push(`</li></${stack.pop()!.tag}>`);
+  }
+
+  return html.join("");
+}
+
+function renderInlineHtml(text: string): string {
+  // Code spans are split out first so their contents stay literal
+  return text
+    .split(/(`[^`]+`)/)
+    .map((part) => {
+      if (/^`[^`]+`$/.test(part)) {
+        return `<code>${escapeHtml(part.slice(1, -1))}</code>`;
+      }
+      let html = escapeHtml(part);
+      html = html.replace(
+        /\[\^([^\]]+)]/g,
+        '<sup><a href="#fn-$1">$1</a></sup>'
+      );
+      html = html.replace(/!\[([^\]]*)]\(([^)\s]+)\)/g, (_m, alt: string, src: string) =>
+        isSafeHtmlUrl(src) ? `<img src="${src}" alt="${alt}">` : alt
+      );
+      html = html.replace(/\[([^\]]+)]\(([^)\s]+)\)/g, (_m, label: string, href: string) =>
+        isSafeHtmlUrl(href) ? `<a href="${href}">${label}</a>` : label
+      );
+      html = html.replace(/\*\*(.+?)\*\*/g, "<strong>$1</strong>");
+      html = html.replace(/__(.+?)__/g, "<strong>$1</strong>");
+      html = html.replace(/\*(?!\s)([^*]+?)\*/g, "<em>$1</em>");
+      html = html.replace(/(^|[^\w])_(?!\s)([^_]+?)_(?!\w)/g, "$1<em>$2</em>");
+      html = html.replace(/~~(.+?)~~/g, "<del>$1</del>");
+      html = html.replace(/==(.+?)==/g, "<mark>$1</mark>");
+      return html;
+    })
+    .join("");
+}
+
+// Relative links and anchors pass; absolute URLs only for web and mail schemes
+function isSafeHtmlUrl(url: string): boolean {
+  const scheme = url.match(/^([a-z][a-z0-9+.-]*):/i);
+  return !scheme || ["http", "https", "mailto"].includes(scheme[1].toLowerCase());
+}
+
+function escapeHtml(str: string): string {
+  return str
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// ── DOCX Export Helpers ──────────────────────────────────────
+
+interface DocxRun {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  code?: boolean;
+  href?: string;
+  footnote?: string; // source note name for [[source|*]]
+}
+
+interface DocxContext {
+  footnotes: string[]; // index + 1 = footnote id
+  links: string[]; // index + 1 = relationship number (offset past fixed rels)
+}
+
+const DOCX_W_NS = "http://schemas.openxmlformats.org/wordprocessingml/2006/main";
+const DOCX_R_NS = "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+const DOCX_FIXED_RELS = 3; // styles, settings, footnotes
+
+function buildDocx(title: string, markdown: string): Uint8Array {
+  const ctx: DocxContext = { footnotes: [], links: [] };
+  const body: string[] = [docxParagraph(docxRunsXml([{ text: title }], ctx), "Title")];
+  const notes: string[] = [];
+
+  const lines = markdown.split("\n");
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (line.trim() === "" || /^(-{3,}|\*{3,}|_{3,})\s*$/.test(line)) { i++; continue; }
+
+    // Word only has styles down to Heading3, so deeper levels share it
+    const heading = line.match(/^(#{1,6})\s+(.*)$/);
+    if (heading) {
+      const text = heading[2].trim();
+      if (text) {
+        const runs = parseDocxRuns(text, {});
+        const level = Math.min(heading[1].length, 3);
+        body.push(docxParagraph(docxRunsXml(runs, ctx), `Heading${level}`));
+      }
+      i++;
+      continue;
+    }
+
+    // Markdown footnote definitions are listed as notes after the body
+    const footnote = line.match(FOOTNOTE_DEF);
+    if (footnote) {
+      const runs = [{ text: `${footnote[1]}.\t` }, ...parseDocxRuns(footnote[2], {})];
+      notes.push(docxParagraph(docxRunsXml(runs, ctx), "FootnoteText"));
+      i++;
+      continue;
+    }
+
+    // Blockquote: each paragraph inside the quote becomes a Quote paragraph
+    if (/^>/.test(line)) {
+      const quoteLines: string[] = [];
+      while (i < lines.length && /^>/.test(lines[i])) {
+        quoteLines.push(lines[i].replace(/^>\s?/, ""));
+        i++;
+      }
+      for (const para of splitDocxParagraphs(quoteLines)) {
+        body.push(docxParagraph(docxLinesXml(para, ctx), "Quote"));
+      }
+      continue;
+    }
+
+    const listItem = line.match(HTML_LIST_ITEM);
+    if (listItem) {
+      const marker = /^\d/.test(listItem[2]) ? `${listItem[2]}\t` : "•\t";
+      const runs = [{ text: marker }, ...parseDocxRuns(listItem[3], {})];
+      body.push(docxParagraph(docxRunsXml(runs, ctx), "ListParagraph"));
+      i++;
+      continue;
+    }
+
+    const para: string[] = [];
+    while (
+      i < lines.length &&
+      lines[i].trim() !== "" &&
+      !isHtmlBlockStart(lines[i])
+    ) {
+      para.push(lines[i].trim());
+      i++;
+    }
+    // Always consume at least one line so an unhandled block start can't stall
+    if (para.length === 0) {
+      para.push(line.trim());
+      i++;
+    }
+    body.push(docxParagraph(docxLinesXml(para, ctx), null));
+  }
+  body.push(...notes);
+
+  const documentXml =
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n` +
+    `<w:document xmlns:w="${DOCX_W_NS}" xmlns:r="${DOCX_R_NS}"><w:body>` +
+    body.join("") +
+    `<w:sectPr><w:pgSz w:w="12240" w:h="15840"/>` +
+    `<w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="720" w:footer="720" w:gutter="0"/>` +
+    `</w:sectPr></w:body></w:document>`;
+
+  const footnotesXml =
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n` +
+    `<w:footnotes xmlns:w="${DOCX_W_NS}" xmlns:r="${DOCX_R_NS}">` +
+    `<w:footnote w:type="separator" w:id="-1"><w:p><w:r><w:separator/></w:r></w:p></w:footnote>` +
+    `<w:footnote w:type="continuationSeparator" w:id="0"><w:p><w:r><w:continuationSeparator/></w:r></w:p></w:footnote>` +
+    ctx.footnotes
+      .map(
+        (name, idx) =>
+          `<w:footnote w:id="${idx + 1}"><w:p><w:pPr><w:pStyle w:val="FootnoteText"/></w:pPr>` +
+          `<w:r><w:rPr><w:rStyle w:val="FootnoteReference"/></w:rPr><w:footnoteRef/></w:r>` +
+          `<w:r><w:t xml:space="preserve"> ${escapeXml(name)}</w:t></w:r></w:p></w:footnote>`
+      )
+      .join("") +
+    `</w:footnotes>`;
+
+  const documentRels =
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n` +
+    `<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+    `<Relationship Id="rId1" Type="${DOCX_R_NS}/styles" Target="styles.xml"/>` +
+    `<Relationship Id="rId2" Type="${DOCX_R_NS}/settings" Target="settings.xml"/>` +
+    `<Relationship Id="rId3" Type="${DOCX_R_NS}/footnotes" Target="footnotes.xml"/>` +
+    ctx.links
+      .map(
+        (href, idx) =>
+          `<Relationship Id="rId${idx + 1 + DOCX_FIXED_RELS}" Type="${DOCX_R_NS}/hyperlink" ` +
+          `Target="${escapeXml(href)}" TargetMode="External"/>`
+      )
+      .join("") +
+    `</Relationships>`;
+
+  return buildZip([
+    { path: "[Content_Types].xml", data: DOCX_CONTENT_TYPES },
+    { path: "_rels/.rels", data: DOCX_PACKAGE_RELS },
+    { path: "word/document.xml", data: documentXml },
+    { path: "word/_rels/document.xml.rels", data: documentRels },
+    { path: "word/styles.xml", data: DOCX_STYLES },
+    { path: "word/settings.xml", data: DOCX_SETTINGS },
+    { path: "word/footnotes.xml", data: footnotesXml },
+  ]);
+}
+
+// Split quote lines on blank lines; each chunk is one Word paragraph
+function splitDocxParagraphs(lines: string[]): string[][] {
+  const paras: string[][] = [];
+  let current: string[] = [];
+  for (const line of lines) {
+    if (line.trim() === "") {
+      if (current.length > 0) paras.push(current);
+      current = [];
+    } else {
+      current.push(line.trim());
+    }
+  }
+  if (current.length > 0) paras.push(current);
+  return paras;
+}
+
+function docxParagraph(runsXml: string, style: string | null): string {
+  const pPr = style ? `<w:pPr><w:pStyle w:val="${style}"/></w:pPr>` : "";
+  return `<w:p>${pPr}${runsXml}</w:p>`;
+}
+
+// Soft line breaks inside one paragraph become <w:br/>
+function docxLinesXml(lines: string[], ctx: DocxContext): string {
+  return lines
+    .map((l) => docxRunsXml(parseDocxRuns(l, {}), ctx))
+    .join("<w:r><w:br/></w:r>");
+}
+
+function parseDocxRuns(text: string, fmt: Omit<DocxRun, "text">): DocxRun[] {
+  const runs: DocxRun[] = [];
+  const re =
+    /\[\[([^\]|]+)\|\*]]|`([^`]+)`|\*\*(.+?)\*\*|__(.+?)__|\*(?!\s)([^*]+?)\*|(?<!\w)_(?!\s)([^_]+?)_(?!\w)|\[([^\]]+)]\(([^)\s]+)\)/g;
+  let last = 0;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(text)) !== null) {
+    if (m.index > last) runs.push({ ...fmt, text: text.slice(last, m.index) });
+    if (m[1] !== undefined) {
+      // Drop the spacing that separated the quote from its attribution
+      if (runs.length > 0) runs[runs.length - 1].text = runs[runs.length - 1].text.trimEnd();
+      runs.push({ text: "", footnote: m[1].trim() });
+    } else if (m[2] !== undefined) {
+      runs.push({ ...fmt, text: m[2], code: true });
+    } else if (m[3] !== undefined || m[4] !== undefined) {
+      runs.push(...parseDocxRuns((m[3] ?? m[4]) as string, { ...fmt, bold: true }));
+    } else if (m[5] !== undefined || m[6] !== undefined) {
+      runs.push(...parseDocxRuns((m[5] ?? m[6]) as string, { ...fmt, italic: true }));
+    } else {
+      runs.push(...parseDocxRuns(m[7], { ...fmt, href: m[8] }));
+    }
+    last = m.index + m[0].length;
+  }
+  if (last < text.length) runs.push({ ...fmt, text: text.slice(last) });
+  return runs;
+}
+
+function docxRunsXml(runs: DocxRun[], ctx: DocxContext): string {
+  return runs
+    .map((run) => {
+      if (run.footnote !== undefined) {
+        ctx.footnotes.push(run.footnote);
+        return (
+          `<w:r><w:rPr><w:rStyle w:val="FootnoteReference"/></w:rPr>` +
+          `<w:footnoteReference w:id="${ctx.footnotes.length}"/></w:r>`
+        );
+      }
+      if (!run.text) return "";
+      const props: string[] = [];
+      if (run.href) props.push(`<w:rStyle w:val="Hyperlink"/>`);
+      if (run.bold) props.push("<w:b/>");
+      if (run.italic) props.push("<w:i/>");
+      if (run.code) props.push(`<w:rFonts w:ascii="Consolas" w:hAnsi="Consolas"/>`);
+      const rPr = props.length > 0 ? `<w:rPr>${props.join("")}</w:rPr>` : "";
+      const xml = `<w:r>${rPr}<w:t xml:space="preserve">${escapeXml(run.text)}</w:t></w:r>`;
+      if (!run.href) return xml;
+      ctx.links.push(run.href);
+      return `<w:hyperlink r:id="rId${ctx.links.length + DOCX_FIXED_RELS}">${xml}</w:hyperlink>`;
+    })
+    .join("");
+}
+
+function escapeXml(str: string): string {
+  return escapeHtml(str).replace(/'/g, "&apos;");
+}
+
+const DOCX_CONTENT_TYPES =
+  `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n` +
+  `<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+  `<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>` +
+  `<Default Extension="xml" ContentType="application/xml"/>` +
+  `<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>` +
+  `<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>` +
+  `<Override PartName="/word/settings.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.settings+xml"/>` +
+  `<Override PartName="/word/footnotes.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.footnotes+xml"/>` +
+  `</Types>`;
+
+const DOCX_PACKAGE_RELS =
+  `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n` +
+  `<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+  `<Relationship Id="rId1" Type="${DOCX_R_NS}/officeDocument" Target="word/document.xml"/>` +
+  `</Relationships>`;
+
+const DOCX_SETTINGS =
+  `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n` +
+  `<w:settings xmlns:w="${DOCX_W_NS}">` +
+  `<w:footnotePr><w:footnote w:id="-1"/><w:footnote w:id="0"/></w:footnotePr>` +
+  `</w:settings>`;
+
+const DOCX_STYLES =
+  `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n` +
+  `<w:styles xmlns:w="${DOCX_W_NS}">` +
+  `<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Georgia" w:hAnsi="Georgia"/><w:sz w:val="24"/></w:rPr></w:rPrDefault>` +
+  `<w:pPrDefault><w:pPr><w:spacing w:after="200" w:line="300" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>` +
+  `<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>` +
+  `<w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/>` +
+  `<w:pPr><w:spacing w:after="360"/></w:pPr><w:rPr><w:sz w:val="48"/></w:rPr></w:style>` +
+  `<w:style w:type="paragraph" w:styleId="Heading1"><w:name w:val="heading 1"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/>` +
+  `<w:pPr><w:keepNext/><w:spacing w:before="480" w:after="120"/><w:outlineLvl w:val="0"/></w:pPr><w:rPr><w:b/><w:sz w:val="36"/></w:rPr></w:style>` +
+  `<w:style w:type="paragraph" w:styleId="Heading2"><w:name w:val="heading 2"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/>` +
+  `<w:pPr><w:keepNext/><w:spacing w:before="360" w:after="120"/><w:outlineLvl w:val="1"/></w:pPr><w:rPr><w:b/><w:sz w:val="30"/></w:rPr></w:style>` +
+  `<w:style w:type="paragraph" w:styleId="Heading3"><w:name w:val="heading 3"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/>` +
+  `<w:pPr><w:keepNext/><w:spacing w:before="240" w:after="80"/><w:outlineLvl w:val="2"/></w:pPr><w:rPr><w:b/><w:sz w:val="26"/></w:rPr></w:style>` +
+  `<w:style w:type="paragraph" w:styleId="Quote"><w:name w:val="Quote"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/>` +
+  `<w:pPr><w:ind w:left="720" w:right="720"/></w:pPr><w:rPr><w:i/><w:color w:val="404040"/></w:rPr></w:style>` +
+  `<w:style w:type="paragraph" w:styleId="ListParagraph"><w:name w:val="List Paragraph"/><w:basedOn w:val="Normal"/>` +
+  `<w:pPr><w:spacing w:after="80"/><w:ind w:left="720" w:hanging="360"/></w:pPr></w:style>` +
+  `<w:style w:type="paragraph" w:styleId="FootnoteText"><w:name w:val="footnote text"/><w:basedOn w:val="Normal"/>` +
+  `<w:pPr><w:spacing w:after="0" w:line="240" w:lineRule="auto"/></w:pPr><w:rPr><w:sz w:val="20"/></w:rPr></w:style>` +
+  `<w:style w:type="character" w:styleId="FootnoteReference"><w:name w:val="footnote reference"/><w:rPr><w:vertAlign w:val="superscript"/></w:rPr></w:style>` +
+  `<w:style w:type="character" w:styleId="Hyperlink"><w:name w:val="Hyperlink"/><w:rPr><w:color w:val="1A5FB4"/><w:u w:val="single"/></w:rPr></w:style>` +
+  `</w:styles>`;
+
+// ── Zip Writer (stored entries, no compression) ─────────────
+
+let crcTable: number[] | null = null;
+
+function crc32(bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = [];
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable.push(c >>> 0);
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = crcTable[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function buildZip(entries: { path: string; data: string | Uint8Array }[]): Uint8Array {
+  const encoder = new TextEncoder();
+  const now = new Date();
+  const dosTime =
+    (now.getHours() << 11) | (now.getMinutes() << 5) | Math.floor(now.getSeconds() / 2);
+  const dosDate =
+    ((now.getFullYear() - 1980) << 9) | ((now.getMonth() + 1) << 5) | now.getDate();
+
+  const chunks: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.path);
+    const data = typeof entry.data === "string" ? encoder.encode(entry.data) : entry.data;
+    const crc = crc32(data);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true); // version needed
+    local.setUint16(6, 0x0800, true); // UTF-8 names
+    local.setUint16(8, 0, true); // stored
+    local.setUint16(10, dosTime, true);
+    local.setUint16(12, dosDate, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, data.length, true);
+    local.setUint32(22, data.length, true);
+    local.setUint16(26, name.length, true);
+    local.setUint16(28, 0, true);
+
+    const dir = new DataView(new ArrayBuffer(46));
+    dir.setUint32(0, 0x02014b50, true);
+    dir.setUint16(4, 20, true); // version made by
+    dir.setUint16(6, 20, true); // version needed
+    dir.setUint16(8, 0x0800, true);
+    dir.setUint16(10, 0, true);
+    dir.setUint16(12, dosTime, true);
+    dir.setUint16(14, dosDate, true);
+    dir.setUint32(16, crc, true);
+    dir.setUint32(20, data.length, true);
+    dir.setUint32(24, data.length, true);
+    dir.setUint16(28, name.length, true);
+    dir.setUint32(42, offset, true);
+
+    chunks.push(new Uint8Array(local.buffer), name, data);
+    central.push(new Uint8Array(dir.buffer), name);
+    offset += 30 + name.length + data.length;
+  }
+
+  const centralSize = central.reduce((sum, c) => sum + c.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  const parts = [...chunks, ...central, new Uint8Array(end.buffer)];
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let pos = 0;
+  for (const part of parts) {
+    out.set(part, pos);
+    pos += part.length;
+  }
+  return out;
+}
+
+// ── Block Selection ─────────────────────────────────────────
+
+const TAGGABLE_BLOCK_TYPES: ContentBlock["type"][] = [
+  "prose", "blockquote", "callout", "list", "footnote",
+];
+
+// Selected blocks in document order; the frontmatter never takes part
+function pickBlocks(blocks: ContentBlock[], indices: number[]): ContentBlock[] {
+  return [...new Set(indices)]
+    .sort((a, b) => a - b)
+    .map((i) => blocks[i])
+    .filter((blk) => blk && blk.type !== "frontmatter");
+}
+
+// Lines to drop when removing blocks, including the blank line after each
+function blockLineSet(lines: string[], picked: ContentBlock[]): Set<number> {
+  const removed = new Set<number>();
+  for (const blk of picked) {
+    let end = blk.endLine;
+    while (end < lines.length && lines[end].trim() === "") end++;
+    for (let l = blk.startLine; l < end; l++) removed.add(l);
+  }
+  return removed;
+}
+
+// Identity of an outline block that survives re-renders: its text plus how
+// many identical blocks come before it
+function blockSelectionKeys(lines: string[], blocks: ContentBlock[]): string[] {
+  const seen = new Map<string, number>();
+  return blocks.map((blk) => {
+    const text = lines.slice(blk.startLine, blk.endLine).join("\n");
+    const n = seen.get(text) ?? 0;
+    seen.set(text, n + 1);
+    return `${n}\u0000${text}`;
+  });
+}
+
+// ── Snapshots ───────────────────────────────────────────────
+
+const MAX_SNAPSHOTS = 50;
+
+// [3,4,5,9] -> [3,3, 9,1]: consecutive line ids collapse into runs
+function encodeRuns(ids: number[]): number[] {
+  const runs: number[] = [];
+  for (const id of ids) {
+    const n = runs.length;
+    if (n > 0 && runs[n - 2] + runs[n - 1] === id) runs[n - 1]++;
+    else runs.push(id, 1);
+  }
+  return runs;
+}
+
+function decodeRuns(runs: number[]): number[] {
+  const ids: number[] = [];
+  for (let i = 0; i < runs.length; i += 2) {
+    for (let k = 0; k < runs[i + 1]; k++) ids.push(runs[i] + k);
+  }
+  return ids;
+}
+
+function snapshotText(store: SnapshotStore, entry: SnapshotEntry): string {
+  return decodeRuns(entry.runs).map((id) => store.lines[id]).join("\n");
+}
+
+// Drop lines no snapshot uses any more, renumbering the rest
+function compactSnapshots(store: SnapshotStore): SnapshotStore {
+  const lines: string[] = [];
+  const remap = new Map<number, number>();
+  const snapshots = store.snapshots.map((entry) => {
+    const ids = decodeRuns(entry.runs).map((id) => {
+      let next = remap.get(id);
+      if (next === undefined) {
+        next = lines.push(store.lines[id]) - 1;
+        remap.set(id, next);
+      }
+      return next;
+    });
+    return { ...entry, runs: encodeRuns(ids) };
+  });
+  return { lines, snapshots };
+}
+
+// ── Arrangements ────────────────────────────────────────────
+
+// Final order (indices into `current`) for a saved arrangement. Saved
+// headings match current sections first-come by name; sections that are not
+// in the arrangement stay right after the section they currently follow.
+function arrangeSections(
+  current: string[],
+  saved: string[]
+): { order: number[]; added: number; missing: number } {
+  const used = new Set<number>();
+  const matched: number[] = [];
+  for (const heading of saved) {
+    const i = current.findIndex((h, j) => h === heading && !used.has(j));
+    if (i === -1) continue;
+    used.add(i);
+    matched.push(i);
+  }
+
+  // Unsaved sections travel with the nearest saved section above them
+  const head: number[] = [];
+  const trailing = new Map<number, number[]>();
+  let owner = -1;
+  current.forEach((_h, i) => {
+    if (used.has(i)) {
+      owner = i;
+      trailing.set(i, []);
+    } else if (owner === -1) {
+      head.push(i);
+    } else {
+      trailing.get(owner)!.push(i);
+    }
+  });
+
+  const order = [...head];
+  for (const i of matched) order.push(i, ...trailing.get(i)!);
+  return {
+    order,
+    added: current.length - matched.length,
+    missing: saved.length - matched.length,
+  };
+}
+
 // ── Helpers ─────────────────────────────────────────────────
 
 function sleep(ms: number): Promise<void> {
@@ -3756,7 +7863,12 @@ function truncate(str: string, max: number): string {
   return str.length > max ? str.substring(0, max - 1) + "\u2026" : str;
 }
 
-function confirmModal(app: App, title: string, message: string): Promise<boolean> {
+function confirmModal(
+  app: App,
+  title: string,
+  message: string,
+  confirmText = "Remove from Cairn"
+): Promise<boolean> {
   return new Promise((resolve) => {
     const modal = new Modal(app);
     modal.titleEl.setText(title);
@@ -3772,7 +7884,7 @@ function confirmModal(app: App, title: string, message: string): Promise<boolean
 
     const confirmBtn = btnRow.createEl("button", {
       cls: "na-btn na-btn-primary",
-      text: "Remove from Cairn",
+      text: confirmText,
     });
     confirmBtn.addEventListener("click", () => {
       modal.close();
@@ -3783,10 +7895,330 @@ function confirmModal(app: App, title: string, message: string): Promise<boolean
   });
 }
 
+// ── Line Diff ───────────────────────────────────────────────
+
+interface LineHunk {
+  oldStart: number;
+  oldEnd: number;
+  newStart: number;
+  newEnd: number;
+}
+
+const MAX_DIFF_CELLS = 2_500_000;
+
+// Line-level hunks turning a into b (common prefix/suffix trimmed, LCS between)
+function diffLines(a: string[], b: string[]): LineHunk[] {
+  let pre = 0;
+  while (pre < a.length && pre < b.length && a[pre] === b[pre]) pre++;
+  let suf = 0;
+  while (
+    suf < a.length - pre &&
+    suf < b.length - pre &&
+    a[a.length - 1 - suf] === b[b.length - 1 - suf]
+  ) suf++;
+  const n = a.length - pre - suf;
+  const m = b.length - pre - suf;
+  if (n === 0 && m === 0) return [];
+  if (n === 0 || m === 0 || n * m > MAX_DIFF_CELLS) {
+    return [{ oldStart: pre, oldEnd: pre + n, newStart: pre, newEnd: pre + m }];
+  }
+
+  // lcs[i][j] = LCS length of a[pre+i..] and b[pre+j..], flattened
+  const w = m + 1;
+  const lcs = new Uint32Array((n + 1) * w);
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * w + j] = a[pre + i] === b[pre + j]
+        ? lcs[(i + 1) * w + j + 1] + 1
+        : Math.max(lcs[(i + 1) * w + j], lcs[i * w + j + 1]);
+    }
+  }
+
+  const hunks: LineHunk[] = [];
+  let open: LineHunk | null = null;
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && a[pre + i] === b[pre + j]) {
+      if (open) { hunks.push(open); open = null; }
+      i++; j++;
+      continue;
+    }
+    if (!open) open = { oldStart: pre + i, oldEnd: pre + i, newStart: pre + j, newEnd: pre + j };
+    if (j < m && (i >= n || lcs[i * w + j + 1] >= lcs[(i + 1) * w + j])) {
+      j++;
+      open.newEnd = pre + j;
+    } else {
+      i++;
+      open.oldEnd = pre + i;
+    }
+  }
+  if (open) hunks.push(open);
+  return hunks;
+}
+
+// Editor changes (in original-document coordinates) that turn oldText into newText
+function lineDiffChanges(oldText: string, newText: string): EditorChange[] {
+  if (oldText === newText) return [];
+  const a = oldText.split("\n");
+  const b = newText.split("\n");
+  const changes: EditorChange[] = [];
+  const endOf = (line: number) => ({ line, ch: a[line].length });
+
+  for (const h of diffLines(a, b)) {
+    const text = b.slice(h.newStart, h.newEnd).join("\n");
+    if (h.oldEnd > h.oldStart && h.newEnd > h.newStart) {
+      changes.push({ from: { line: h.oldStart, ch: 0 }, to: endOf(h.oldEnd - 1), text });
+    } else if (h.newEnd > h.newStart) {
+      // Pure insert: before an existing line, or after the last one
+      changes.push(h.oldStart < a.length
+        ? { from: { line: h.oldStart, ch: 0 }, text: text + "\n" }
+        : { from: endOf(a.length - 1), text: "\n" + text });
+    } else if (h.oldEnd < a.length) {
+      changes.push({ from: { line: h.oldStart, ch: 0 }, to: { line: h.oldEnd, ch: 0 }, text: "" });
+    } else {
+      // Pure delete running to the end of the document
+      changes.push({ from: endOf(h.oldStart - 1), to: endOf(h.oldEnd - 1), text: "" });
+    }
+  }
+  return changes;
+}
+
+// ── Embed Resolution ──────────────────────────────────────
+
+const MAX_EMBED_DEPTH = 5;
+const IMAGE_EXTENSIONS = ["png", "jpg", "jpeg", "gif", "svg", "webp", "bmp", "avif"];
+
+// Text under a heading, down to the next heading of the same or higher level
+function extractHeadingSection(content: string, heading: string): string | null {
+  const lines = content.split("\n");
+  // Nested subpaths (#Parent#Child) target the last heading
+  const wanted = heading.split("#").pop()!.trim().toLowerCase();
+  const start = lines.findIndex((l) => {
+    const m = l.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/);
+    return m !== null && m[2].trim().toLowerCase() === wanted;
+  });
+  if (start === -1) return null;
+  const level = lines[start].match(/^#+/)![0].length;
+  let end = start + 1;
+  while (end < lines.length) {
+    const m = lines[end].match(/^(#{1,6})\s/);
+    if (m && m[1].length <= level) break;
+    end++;
+  }
+  return lines.slice(start, end).join("\n");
+}
+
+// Block text from its cached position, without the trailing ^id marker
+function extractBlock(
+  content: string,
+  block: { position: { start: { offset: number }; end: { offset: number } } } | undefined
+): string | null {
+  if (!block) return null;
+  return content
+    .slice(block.position.start.offset, block.position.end.offset)
+    .replace(/\s*\^[\w-]+\s*$/, "");
+}
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter((w) => w.length > 0).length;
+}
+
+interface WordCount {
+  own: number;
+  quoted: number; // words inside source blockquotes
+}
+
+// Add one block's words to a tally; headings and frontmatter don't count
+function addBlockWords(total: WordCount, lines: string[], blk: ContentBlock): void {
+  if (
+    blk.type === "heading" ||
+    blk.type === "subheading" ||
+    blk.type === "frontmatter" ||
+    blk.type === "code"
+  ) return;
+  const text = lines.slice(blk.startLine, blk.endLine).join("\n");
+  if (blk.type === "blockquote") {
+    total.quoted += countWords(text.replace(/^>\s?/gm, ""));
+  } else if (blk.type === "callout") {
+    // Callouts are set apart like quotes; the [!type] marker isn't a word
+    total.quoted += countWords(text.replace(/^>\s?/gm, "").replace(/^\[![^\]]+][+-]?/, ""));
+  } else {
+    total.own += countWords(text);
+  }
+}
+
+function formatWordProgress(words: number, target: number | undefined): string {
+  return target
+    ? `${words.toLocaleString()}/${target.toLocaleString()}`
+    : words.toLocaleString();
+}
+
+function yamlString(str: string): string {
+  return JSON.stringify(str);
+}
+
 function escapeRegex(str: string): string {
   return str.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
 }
 
+// URL-safe slug: "Café Notes!" → "cafe-notes"
+function slugify(text: string): string {
+  return text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+function buildPermalink(pattern: string, file: TFile, fm: Record<string, any>): string {
+  if (typeof fm.permalink === "string" && fm.permalink) return fm.permalink;
+  const slug = (typeof fm.slug === "string" && fm.slug) || slugify(file.basename);
+  const folder = (file.parent?.path ?? "")
+    .split("/")
+    .filter((p) => p && p !== "/")
+    .map(slugify)
+    .join("/");
+  return pattern
+    .replace(/\{slug}/g, slug)
+    .replace(/\{folder}/g, folder)
+    .replace(/(^|[^:])\/{2,}/g, "$1/"); // empty {folder}, but keep https://
+}
+
+// Frontmatter tags may be a list or a comma/space separated string
+function normalizeTags(tags: unknown): string[] {
+  const list = Array.isArray(tags)
+    ? tags.map(String)
+    : typeof tags === "string"
+      ? tags.split(/[,\s]+/)
+      : [];
+  return list.map((t) => t.trim().replace(/^#/, "")).filter(Boolean);
+}
+
+// ── Section Structure ────────────────────────────────────
+
+// Which lines open sections: headings at one level, or %% section %% markers.
+// The pinned heading (any level) always opens the pinned section.
+interface SectionStructure {
+  level: number; // items are headings one level deeper
+  markers: boolean;
+  pinnedName: string;
+}
+
+const SECTION_MARKER = /^%%\s*section(?::\s*(.*?))?\s*%%\s*$/i;
+
+function headingAt(line: string, level: number): string | null {
+  const m = line.match(/^(#{1,6}) (.+)$/);
+  return m && m[1].length === level ? m[2] : null;
+}
+
+// Title of the section opened by lines[i], or null
+function sectionTitleAt(lines: string[], i: number, structure: SectionStructure): string | null {
+  const line = lines[i];
+  if (line === undefined) return null;
+  const pinned = line.match(/^#{1,6} (.+)$/);
+  if (pinned && pinned[1].trim() === structure.pinnedName) {
+    // An untitled marker right above already opened this section
+    let prev = i - 1;
+    while (prev >= 0 && lines[prev].trim() === "") prev--;
+    if (!(structure.markers && prev >= 0 && SECTION_MARKER.test(lines[prev]))) return pinned[1];
+  }
+  if (!structure.markers) return headingAt(line, structure.level);
+
+  const marker = line.match(SECTION_MARKER);
+  if (!marker) return null;
+  if (marker[1]) return marker[1];
+  // Untitled marker: named after the next non-blank line, usually a heading
+  for (let j = i + 1; j < lines.length; j++) {
+    if (lines[j].trim() === "" || SECTION_ANNOTATION.test(lines[j])) continue;
+    if (SECTION_MARKER.test(lines[j])) break;
+    return lines[j].replace(/^#+\s*/, "").trim() || "Untitled section";
+  }
+  return "Untitled section";
+}
+
+// Items are headings one level below sections (none in marker mode)
+function itemTitleAt(line: string, structure: SectionStructure): string | null {
+  if (structure.markers || structure.level >= 6) return null;
+  return headingAt(line, structure.level + 1);
+}
+
+function sectionOpener(title: string, structure: SectionStructure): string {
+  return structure.markers
+    ? `%% section: ${title} %%`
+    : `${"#".repeat(structure.level)} ${title}`;
+}
+
+// Lines inside frontmatter or code fences: never headings or block boundaries
+function literalLineMask(lines: string[]): boolean[] {
+  const mask = new Array<boolean>(lines.length).fill(false);
+  let i = 0;
+  if (lines[0] === "---") {
+    const close = lines.findIndex((l, j) => j > 0 && (l === "---" || l === "..."));
+    if (close !== -1) {
+      for (; i <= close; i++) mask[i] = true;
+    }
+  }
+  let fence: string | null = null;
+  for (; i < lines.length; i++) {
+    const m = lines[i].match(/^\s*(`{3,}|~{3,})/);
+    if (fence) {
+      mask[i] = true;
+      if (m && m[1][0] === fence[0] && m[1].length >= fence.length && lines[i].trim() === m[1]) {
+        fence = null;
+      }
+    } else if (m) {
+      fence = m[1];
+      mask[i] = true;
+    }
+  }
+  return mask;
+}
+
+// A heading line plus which copy it is, so identical headings (or untitled
+// %% section %% markers) stay apart
+interface InsertionTarget {
+  line: string;
+  occurrence: number;
+}
+
+function insertionTargetAt(lines: string[], index: number): InsertionTarget {
+  const literal = literalLineMask(lines);
+  let occurrence = 0;
+  for (let i = 0; i < index; i++) {
+    if (!literal[i] && lines[i] === lines[index]) occurrence++;
+  }
+  return { line: lines[index], occurrence };
+}
+
+function findInsertionTarget(lines: string[], target: InsertionTarget): number {
+  const literal = literalLineMask(lines);
+  let seen = 0;
+  for (let i = 0; i < lines.length; i++) {
+    if (literal[i] || lines[i] !== target.line) continue;
+    if (seen === target.occurrence) return i;
+    seen++;
+  }
+  return -1;
+}
+
+// Append "- [[name]]" to the pinned section (creating it if missing), once
+function addToSourcesList(content: string, name: string, structure: SectionStructure): string {
+  const lines = content.split("\n");
+  const pinnedName = structure.pinnedName;
+  const start = lines.findIndex((_l, i) => sectionTitleAt(lines, i, structure)?.trim() === pinnedName);
+  if (start === -1) {
+    return content.trimEnd() + `\n\n---\n\n${sectionOpener(pinnedName, structure)}\n\n- [[${name}]]\n`;
+  }
+  let end = lines.findIndex((_l, i) => i > start && sectionTitleAt(lines, i, structure) !== null);
+  if (end === -1) end = lines.length;
+  if (lines.slice(start, end).some((l) => l.includes(`[[${name}]]`))) return content;
+  while (end > start + 1 && lines[end - 1].trim() === "") end--;
+  lines.splice(end, 0, `- [[${name}]]`);
+  return lines.join("\n");
+}
+
 function sanitizeFilename(name: string): string {
   return name.replace(/[/\\:*?"<>|]/g, "").trim();
 }
@@ -3803,3 +8235,54 @@ function parseWikilinks(content: string): string[] {
   }
   return links;
 }
+
+// ── Section Annotations ──────────────────────────────────
+// Obsidian comments directly under a section's opening line, such as
+// %% status: drafting %% or %% synopsis: why this section exists %%.
+// They travel with the section and never export.
+
+const SECTION_ANNOTATION = /^%%\s*(status|target|synopsis):\s*(.*?)\s*%%\s*$/i;
+
+const SECTION_STATUSES = ["outline", "drafting", "revising", "done"] as const;
+type SectionStatus = typeof SECTION_STATUSES[number];
+
+// First line after the annotations under the opener at `start`
+function annotationEnd(lines: string[], start: number): number {
+  let end = start + 1;
+  while (end < lines.length && SECTION_ANNOTATION.test(lines[end])) end++;
+  return end;
+}
+
+function sectionAnnotation(lines: string[], start: number, key: string): string | undefined {
+  for (let i = start + 1; i < annotationEnd(lines, start); i++) {
+    const m = lines[i].match(SECTION_ANNOTATION)!;
+    if (m[1].toLowerCase() === key) return m[2];
+  }
+  return undefined;
+}
+
+function sectionStatus(lines: string[], start: number): SectionStatus | undefined {
+  const value = sectionAnnotation(lines, start, "status")?.toLowerCase();
+  return SECTION_STATUSES.find((s) => s === value);
+}
+
+function sectionTarget(lines: string[], start: number): number | undefined {
+  const value = parseInt(sectionAnnotation(lines, start, "target") ?? "", 10);
+  return value > 0 ? value : undefined;
+}
+
+// Set, replace or (with undefined) remove one annotation; edits `lines` in place
+function setSectionAnnotation(
+  lines: string[],
+  start: number,
+  key: string,
+  value: string | undefined
+): void {
+  const end = annotationEnd(lines, start);
+  const existing = lines
+    .slice(start + 1, end)
+    .findIndex((l) => l.match(SECTION_ANNOTATION)![1].toLowerCase() === key);
+  const line = value === undefined ? [] : [`%% ${key}: ${value} %%`];
+  if (existing !== -1) lines.splice(start + 1 + existing, 1, ...line);
+  else lines.splice(end, 0, ...line);
+}